@@ -0,0 +1,303 @@
+import { useRef, useState } from "react";
+import { format } from "date-fns";
+import { Book } from "@/pages/Dashboard";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { AlertTriangle, ArchiveRestore, Download, Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { BackupBook, ReadBackupResult, createBackup, findRestoreTarget, readBackup, restoreRows } from "@/lib/backup";
+import { downloadFile, exportFileName } from "@/lib/export/download";
+import { fetchBookTransactions } from "@/lib/transactions";
+import { ImportRow, toImportPayload } from "@/lib/import/fingerprint";
+import { importInChunks } from "@/lib/import/upload";
+
+interface BackupRestoreProps {
+  books: Book[];
+  onRestored: () => void;
+}
+
+interface RestoreProgress {
+  bookName: string;
+  processed: number;
+  total: number;
+}
+
+const BackupRestore = ({ books, onRestored }: BackupRestoreProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [backup, setBackup] = useState<ReadBackupResult | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [progress, setProgress] = useState<RestoreProgress | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isRestoring = !!progress;
+
+  const existingBook = (entry: BackupBook) => findRestoreTarget(books, entry);
+
+  const handleBackup = async () => {
+    setIsBackingUp(true);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not signed in");
+
+      const contents = [];
+      for (const book of books) {
+        contents.push({ book, transactions: await fetchBookTransactions(book.id) });
+      }
+      const archive = await createBackup({ user_id: user.id, email: user.email ?? null }, contents);
+
+      downloadFile(
+        JSON.stringify(archive, null, 2),
+        exportFileName("spendsmart-backup", format(new Date(), "yyyy-MM-dd"), "json"),
+        "application/json"
+      );
+      toast.success(`Backed up ${archive.book_count} books with ${archive.transaction_count} transactions`);
+    } catch (error) {
+      toast.error("Failed to create backup");
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const result = await readBackup(await file.text());
+      setBackup(result);
+      setSelected(
+        new Set(result.archive.books.map((entry) => entry.book.id).filter((id) => !result.damaged.has(id)))
+      );
+      if (result.damaged.size > 0) {
+        toast.warning(`${result.damaged.size} books in this backup are damaged and can't be restored`);
+      }
+    } catch (error) {
+      setBackup(null);
+      toast.error(error instanceof Error ? error.message : "Failed to read backup");
+    }
+  };
+
+  const toggleBook = (id: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(id);
+    else next.delete(id);
+    setSelected(next);
+  };
+
+  const sendChunk = async (bookId: string, chunk: ImportRow[]) => {
+    const { data, error } = await supabase.rpc("import_transactions", {
+      _book_id: bookId,
+      _batch_id: null,
+      _transactions: toImportPayload(chunk),
+    });
+
+    if (error) throw error;
+    return data?.length ?? 0;
+  };
+
+  // Books that still exist are restored into place; deleted ones are
+  // recreated under a new id that remembers the backed-up one
+  const restoreBook = async (userId: string, entry: BackupBook) => {
+    let bookId = existingBook(entry)?.id;
+    if (!bookId) {
+      const nameTaken = books.some((book) => book.name === entry.book.name);
+      const { data, error } = await supabase
+        .from("books")
+        .insert({
+          user_id: userId,
+          name: nameTaken ? `${entry.book.name} (restored)` : entry.book.name,
+          currency: entry.book.currency,
+          restored_from: entry.book.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      bookId = data.id;
+    }
+
+    return importInChunks(restoreRows(entry), (chunk) => sendChunk(bookId, chunk), (processed, total) =>
+      setProgress({ bookName: entry.book.name, processed, total })
+    );
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    const entries = backup.archive.books.filter((entry) => selected.has(entry.book.id));
+    setProgress({ bookName: entries[0]?.book.name ?? "", processed: 0, total: 0 });
+
+    let inserted = 0;
+    let duplicates = 0;
+    let failed = 0;
+    let restoredBooks = 0;
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not signed in");
+
+      for (const entry of entries) {
+        const result = await restoreBook(user.id, entry);
+        inserted += result.inserted;
+        duplicates += result.duplicates;
+        failed += result.failed.length;
+        restoredBooks++;
+      }
+
+      const details = [
+        duplicates > 0 ? `${duplicates} already there` : null,
+        failed > 0 ? `${failed} failed` : null,
+      ].filter(Boolean).join(", ");
+      const message = `Restored ${inserted} transactions into ${restoredBooks} books${details ? ` (${details})` : ""}`;
+
+      if (failed > 0) toast.warning(message);
+      else toast.success(message);
+      setBackup(null);
+      setIsOpen(false);
+    } catch (error) {
+      toast.error("Failed to restore backup");
+    } finally {
+      setProgress(null);
+      if (restoredBooks > 0 || inserted > 0) onRestored();
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (isRestoring) return;
+    setIsOpen(open);
+    if (!open) setBackup(null);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <ArchiveRestore className="w-4 h-4" />
+          Backup
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Backup & Restore</DialogTitle>
+          <DialogDescription>
+            Save all of your books and transactions to one file, or bring back books from a backup
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 pt-2">
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              The backup includes every book with all of its transactions, labels and notes.
+            </p>
+            <Button
+              onClick={handleBackup}
+              disabled={isBackingUp || isRestoring || books.length === 0}
+              className="gap-2"
+            >
+              {isBackingUp ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              Download backup
+            </Button>
+          </div>
+
+          <div className="space-y-3 border-t pt-4">
+            <p className="text-sm text-muted-foreground">
+              Restoring skips transactions a book already has, so restoring the same backup twice is safe.
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleFileSelect}
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isBackingUp || isRestoring}
+              className="gap-2"
+            >
+              <Upload className="w-4 h-4" />
+              Choose backup file
+            </Button>
+
+            {backup && (
+              <div className="space-y-3">
+                <p className="text-sm">
+                  Backup from {format(new Date(backup.archive.created_at), "PPp")}:{" "}
+                  {backup.archive.book_count} books, {backup.archive.transaction_count} transactions
+                </p>
+
+                {!backup.intact && (
+                  <div className="flex items-start gap-2 text-sm text-destructive">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                    <span>The backup's details don't match its checksum. The file may have been edited.</span>
+                  </div>
+                )}
+
+                <div className="space-y-2 max-h-60 overflow-y-auto">
+                  {backup.archive.books.map((entry) => {
+                    const id = entry.book.id;
+                    const isDamaged = backup.damaged.has(id);
+                    return (
+                      <div key={id} className="flex items-start gap-3 rounded-md border p-3">
+                        <Checkbox
+                          id={`restore-${id}`}
+                          checked={selected.has(id)}
+                          disabled={isDamaged || isRestoring}
+                          onCheckedChange={(checked) => toggleBook(id, checked === true)}
+                        />
+                        <div className="space-y-1">
+                          <Label htmlFor={`restore-${id}`}>
+                            {entry.book.name} ({entry.book.currency})
+                          </Label>
+                          <p className="text-xs text-muted-foreground">
+                            {entry.transactions.length} transactions ·{" "}
+                            {isDamaged
+                              ? "damaged, can't be restored"
+                              : existingBook(entry)
+                                ? "missing transactions are added to the existing book"
+                                : "recreated as a new book"}
+                          </p>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {progress && (
+                  <div className="space-y-2">
+                    <Progress value={progress.total > 0 ? (progress.processed / progress.total) * 100 : 0} />
+                    <p className="text-sm text-muted-foreground">
+                      Restoring "{progress.bookName}" ({progress.processed} of {progress.total})
+                    </p>
+                  </div>
+                )}
+
+                <Button onClick={handleRestore} disabled={isRestoring || selected.size === 0} className="w-full gap-2">
+                  {isRestoring && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Restore {selected.size} {selected.size === 1 ? "book" : "books"}
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BackupRestore;
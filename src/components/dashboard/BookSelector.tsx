@@ -29,6 +29,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { BookOpen, Plus, Trash2 } from "lucide-react";
+import BackupRestore from "./BackupRestore";
 
 interface BookSelectorProps {
   books: Book[];
@@ -36,6 +37,8 @@ interface BookSelectorProps {
   onSelectBook: (book: Book) => void;
   onCreateBook: (name: string, currency: string) => void;
   onDeleteBook: (bookId: string) => void;
+  // Called after a backup was restored, to reload books and transactions
+  onRestored: () => void;
 }
 
 const BookSelector = ({
@@ -44,6 +47,7 @@ const BookSelector = ({
   onSelectBook,
   onCreateBook,
   onDeleteBook,
+  onRestored,
 }: BookSelectorProps) => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
@@ -114,6 +118,8 @@ const BookSelector = ({
             </>
           )}
 
+          <BackupRestore books={books} onRestored={onRestored} />
+
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
             <DialogTrigger asChild>
               <Button className="gap-2">
@@ -168,7 +174,7 @@ const BookSelector = ({
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Book?</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete "{selectedBook?.name}"? This will permanently delete all transactions in this book. This action cannot be undone.
+              Are you sure you want to delete "{selectedBook?.name}"? This will permanently delete all transactions in this book. This action cannot be undone, so download a backup first if you may need it again.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
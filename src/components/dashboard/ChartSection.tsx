@@ -1,13 +1,28 @@
 import { useState, useMemo, useEffect } from "react";
-import { Transaction } from "@/pages/Dashboard";
+import { Book, Transaction } from "@/pages/Dashboard";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid, Sector } from "recharts";
-import { TrendingDown, TrendingUp, DollarSign, ChevronLeft, ChevronRight } from "lucide-react";
-import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfYear, endOfYear, addWeeks, addMonths, addYears, subWeeks, subMonths, subYears, parseISO, startOfDay, endOfDay } from "date-fns";
+import { TrendingDown, TrendingUp, Wallet, ChevronLeft, ChevronRight } from "lucide-react";
+import ExportMenu from "@/components/dashboard/ExportMenu";
+import ExchangeRates from "@/components/dashboard/ExchangeRates";
+import {
+  expensesByCategory,
+  expensesByMonth,
+  expensesBySubcategory,
+  periodContaining,
+  transactionsInPeriod,
+} from "@/lib/summaries";
+import { moneyFormatter } from "@/lib/money";
+import { ExchangeRate, RateTable, convertTransactions } from "@/lib/rates";
+import { format, addWeeks, addMonths, addYears, subWeeks, subMonths, subYears } from "date-fns";
 
 interface ChartSectionProps {
+  book: Book;
   transactions: Transaction[];
+  rates: ExchangeRate[];
+  rateTable: RateTable;
+  onRatesChange: () => void;
   onFilterChange: (filtered: Transaction[]) => void;
 }
 
@@ -20,7 +35,19 @@ const COLORS = [
   "hsl(var(--chart-6))",
 ];
 
-const ChartSection = ({ transactions, onFilterChange }: ChartSectionProps) => {
+const ChartSection = ({
+  book,
+  transactions: bookTransactions,
+  rates,
+  rateTable,
+  onRatesChange,
+  onFilterChange,
+}: ChartSectionProps) => {
+  // Everything below works with amounts in the book's currency
+  const { transactions, missingRates } = useMemo(
+    () => convertTransactions(bookTransactions, book.currency, rateTable),
+    [bookTransactions, book.currency, rateTable]
+  );
   const [timePeriod, setTimePeriod] = useState<"weekly" | "monthly" | "yearly">("monthly");
   
   // Initialize currentDate to the most recent transaction date, or today if no transactions
@@ -39,6 +66,8 @@ const ChartSection = ({ transactions, onFilterChange }: ChartSectionProps) => {
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [activeIndex, setActiveIndex] = useState<number | undefined>(undefined);
   const [hoveredCategory, setHoveredCategory] = useState<string | null>(null);
+  const money = moneyFormatter(book.currency);
+  const axisMoney = moneyFormatter(book.currency, { notation: "compact" });
 
   // Update currentDate when transactions change (e.g., after upload)
   useEffect(() => {
@@ -52,43 +81,24 @@ const ChartSection = ({ transactions, onFilterChange }: ChartSectionProps) => {
     }
   }, [transactions.length]);
 
-  const dateRange = useMemo(() => {
-    if (timePeriod === "weekly") {
-      return {
-        start: startOfWeek(currentDate, { weekStartsOn: 0 }),
-        end: endOfWeek(currentDate, { weekStartsOn: 0 }),
-      };
-    } else if (timePeriod === "monthly") {
-      return {
-        start: startOfMonth(currentDate),
-        end: endOfMonth(currentDate),
-      };
-    } else {
-      return {
-        start: startOfYear(currentDate),
-        end: endOfYear(currentDate),
-      };
-    }
-  }, [timePeriod, currentDate]);
+  const dateRange = useMemo(() => periodContaining(timePeriod, currentDate), [timePeriod, currentDate]);
 
-  const filteredTransactions = useMemo(() => {
-    const filtered = transactions.filter((t) => {
-      // Parse the date string as local date (YYYY-MM-DD format from database)
-      const [year, month, day] = t.date.split('-').map(Number);
-      const transactionDate = new Date(year, month - 1, day);
-      const rangeStart = startOfDay(dateRange.start);
-      const rangeEnd = endOfDay(dateRange.end);
-      
-      return transactionDate >= rangeStart && transactionDate <= rangeEnd;
-    });
-    
-    return filtered;
-  }, [transactions, dateRange]);
+  const filteredTransactions = useMemo(
+    () => transactionsInPeriod(transactions, dateRange),
+    [transactions, dateRange]
+  );
+
+  // The period's transactions as saved, for the table to edit and the
+  // exports to convert as each format needs
+  const storedTransactions = useMemo(
+    () => transactionsInPeriod(bookTransactions, dateRange),
+    [bookTransactions, dateRange]
+  );
 
   // Notify parent of filtered transactions
   useEffect(() => {
-    onFilterChange(filteredTransactions);
-  }, [filteredTransactions, onFilterChange]);
+    onFilterChange(storedTransactions);
+  }, [storedTransactions, onFilterChange]);
 
   const handlePrevious = () => {
     if (timePeriod === "weekly") {
@@ -114,68 +124,18 @@ const ChartSection = ({ transactions, onFilterChange }: ChartSectionProps) => {
   const totalExpense = filteredTransactions.reduce((sum, t) => sum + (t.expense || 0), 0);
   const netBalance = totalIncome - totalExpense;
 
-  const categoryData = useMemo(() => {
-    const grouped: Record<string, number> = {};
-    filteredTransactions.forEach((t) => {
-      if (t.expense > 0) {
-        grouped[t.category] = (grouped[t.category] || 0) + t.expense;
-      }
-    });
-    return Object.entries(grouped)
-      .map(([name, value]) => ({
-        name,
-        value: Number(value.toFixed(2)),
-      }))
-      .sort((a, b) => b.value - a.value);
-  }, [filteredTransactions]);
+  const categoryData = useMemo(() => expensesByCategory(filteredTransactions), [filteredTransactions]);
 
-  const subcategoryData = useMemo(() => {
-    const grouped: Record<string, number> = {};
-    const transactionsToUse = selectedCategory
-      ? filteredTransactions.filter((t) => t.category === selectedCategory)
-      : filteredTransactions;
-    
-    transactionsToUse.forEach((t) => {
-      if (t.expense > 0 && t.subcategory) {
-        grouped[t.subcategory] = (grouped[t.subcategory] || 0) + t.expense;
-      }
-    });
-    return Object.entries(grouped)
-      .map(([name, value]) => ({
-        name,
-        value: Number(value.toFixed(2)),
-      }))
-      .sort((a, b) => b.value - a.value);
-  }, [filteredTransactions, selectedCategory]);
+  const subcategoryData = useMemo(
+    () => expensesBySubcategory(filteredTransactions, selectedCategory),
+    [filteredTransactions, selectedCategory]
+  );
 
   // Monthly expense data for bar chart - shows ALL months for trend analysis
   const monthlyData = useMemo(() => {
     if (timePeriod !== "monthly") return [];
-    
-    const monthlyExpenses: Record<string, Record<string, number>> = {};
-    
     // Use ALL transactions to show monthly trend across entire dataset
-    transactions.forEach((t) => {
-      if (t.expense > 0) {
-        const [year, month, day] = t.date.split('-').map(Number);
-        const transactionDate = new Date(year, month - 1, day);
-        const monthKey = format(transactionDate, "MMM yyyy");
-        if (!monthlyExpenses[monthKey]) {
-          monthlyExpenses[monthKey] = {};
-        }
-        monthlyExpenses[monthKey][t.category] = (monthlyExpenses[monthKey][t.category] || 0) + t.expense;
-      }
-    });
-
-    // Convert to array format for chart and sort by date
-    return Object.entries(monthlyExpenses)
-      .map(([month, categories]) => ({
-        month,
-        total: Number(Object.values(categories).reduce((sum, val) => sum + val, 0).toFixed(2)),
-        categories,
-        sortDate: new Date(month + ' 01'),
-      }))
-      .sort((a, b) => a.sortDate.getTime() - b.sortDate.getTime());
+    return expensesByMonth(transactions);
   }, [transactions, timePeriod]);
 
   // Monthly data for hovered category
@@ -222,7 +182,7 @@ const ChartSection = ({ transactions, onFilterChange }: ChartSectionProps) => {
       return (
         <div className="bg-popover border border-border rounded-lg shadow-lg p-3">
           <p className="font-semibold text-sm mb-2">{category}</p>
-          <p className="text-sm text-primary font-bold mb-2">Total: ${totalValue.toFixed(2)}</p>
+          <p className="text-sm text-primary font-bold mb-2">Total: {money(totalValue)}</p>
           <div className="border-t border-border pt-2 mt-2">
             <p className="text-xs text-muted-foreground mb-1">Monthly Breakdown:</p>
             {Object.entries(monthlyBreakdown)
@@ -230,7 +190,7 @@ const ChartSection = ({ transactions, onFilterChange }: ChartSectionProps) => {
               .map(([month, amount]) => (
                 <div key={month} className="flex justify-between text-xs gap-4">
                   <span>{month}:</span>
-                  <span className="font-medium">${amount.toFixed(2)}</span>
+                  <span className="font-medium">{money(amount)}</span>
                 </div>
               ))}
           </div>
@@ -313,8 +273,16 @@ const ChartSection = ({ transactions, onFilterChange }: ChartSectionProps) => {
             <Button variant="outline" size="icon" onClick={handleNext}>
               <ChevronRight className="h-4 w-4" />
             </Button>
+            <ExportMenu book={book} viewTransactions={storedTransactions} period={dateRange} rateTable={rateTable} />
+            <ExchangeRates rates={rates} bookCurrency={book.currency} onChange={onRatesChange} />
           </div>
         </div>
+        {missingRates > 0 && (
+          <p className="text-xs text-muted-foreground mt-3">
+            {missingRates} transactions in other currencies have no exchange rate into {book.currency} yet and are
+            counted with the amounts they were saved with.
+          </p>
+        )}
       </Card>
 
       {/* Summary Cards */}
@@ -328,7 +296,7 @@ const ChartSection = ({ transactions, onFilterChange }: ChartSectionProps) => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-primary">
-              ${totalIncome.toFixed(2)}
+              {money(totalIncome)}
             </div>
           </CardContent>
         </Card>
@@ -342,7 +310,7 @@ const ChartSection = ({ transactions, onFilterChange }: ChartSectionProps) => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-secondary">
-              ${totalExpense.toFixed(2)}
+              {money(totalExpense)}
             </div>
           </CardContent>
         </Card>
@@ -352,11 +320,11 @@ const ChartSection = ({ transactions, onFilterChange }: ChartSectionProps) => {
             <CardTitle className="text-sm font-medium text-muted-foreground">
               Net Balance
             </CardTitle>
-            <DollarSign className="w-4 h-4 text-accent" />
+            <Wallet className="w-4 h-4 text-accent" />
           </CardHeader>
           <CardContent>
             <div className={`text-2xl font-bold ${netBalance >= 0 ? 'text-primary' : 'text-secondary'}`}>
-              ${netBalance.toFixed(2)}
+              {money(netBalance)}
             </div>
           </CardContent>
         </Card>
@@ -436,8 +404,8 @@ const ChartSection = ({ transactions, onFilterChange }: ChartSectionProps) => {
                       interval={0}
                       tick={{ fontSize: 11, fill: 'hsl(var(--foreground))' }}
                     />
-                    <YAxis tick={{ fill: 'hsl(var(--foreground))' }} />
-                    <Tooltip formatter={(value: number) => `$${value.toFixed(2)}`} />
+                    <YAxis tick={{ fill: 'hsl(var(--foreground))' }} tickFormatter={axisMoney} />
+                    <Tooltip formatter={(value: number) => money(value)} />
                     <Bar dataKey="value" fill="hsl(var(--chart-2))" radius={[8, 8, 0, 0]} />
                   </BarChart>
                 ) : (
@@ -451,8 +419,8 @@ const ChartSection = ({ transactions, onFilterChange }: ChartSectionProps) => {
                       interval={0}
                       tick={{ fontSize: 11, fill: 'hsl(var(--foreground))' }}
                     />
-                    <YAxis tick={{ fill: 'hsl(var(--foreground))' }} />
-                    <Tooltip formatter={(value: number) => `$${value.toFixed(2)}`} />
+                    <YAxis tick={{ fill: 'hsl(var(--foreground))' }} tickFormatter={axisMoney} />
+                    <Tooltip formatter={(value: number) => money(value)} />
                     <Bar dataKey="total" fill="hsl(var(--primary))" radius={[8, 8, 0, 0]} />
                   </BarChart>
                 )
@@ -467,8 +435,8 @@ const ChartSection = ({ transactions, onFilterChange }: ChartSectionProps) => {
                     interval={0}
                     tick={{ fontSize: 11, fill: 'hsl(var(--foreground))' }}
                   />
-                  <YAxis tick={{ fill: 'hsl(var(--foreground))' }} />
-                  <Tooltip formatter={(value: number) => `$${value.toFixed(2)}`} />
+                  <YAxis tick={{ fill: 'hsl(var(--foreground))' }} tickFormatter={axisMoney} />
+                  <Tooltip formatter={(value: number) => money(value)} />
                   <Bar dataKey="value" fill="hsl(var(--primary))" radius={[8, 8, 0, 0]} />
                 </BarChart>
               )}
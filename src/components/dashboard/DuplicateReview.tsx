@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Transaction } from "@/pages/Dashboard";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Copy, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { DuplicateCandidate, findDuplicateCandidates, mergeTransactions, pairKey } from "@/lib/duplicates";
+import { formatMoney } from "@/lib/money";
+import { fetchBookTransactions } from "@/lib/transactions";
+
+interface DuplicateReviewProps {
+  bookId: string;
+  userId: string;
+  // The book's currency code
+  currency: string;
+  onUpdate: () => void;
+}
+
+const VISIBLE_PAIRS = 50;
+
+// Keep the transaction that carries a bank id, otherwise the older one
+const defaultKeep = (candidate: DuplicateCandidate): string => {
+  const { a, b } = candidate;
+  if (a.external_id && !b.external_id) return a.id;
+  if (b.external_id && !a.external_id) return b.id;
+  return a.created_at <= b.created_at ? a.id : b.id;
+};
+
+const DuplicateReview = ({ bookId, userId, currency, onUpdate }: DuplicateReviewProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({});
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const loadCandidates = async () => {
+    setIsLoading(true);
+    try {
+      const [transactions, { data: dismissals, error: dismissalsError }] = await Promise.all([
+        fetchBookTransactions(bookId),
+        supabase.from("duplicate_dismissals").select("transaction_a, transaction_b").eq("book_id", bookId),
+      ]);
+
+      if (dismissalsError) throw dismissalsError;
+
+      const dismissed = new Set((dismissals || []).map((d) => pairKey(d.transaction_a, d.transaction_b)));
+      setCandidates(findDuplicateCandidates(transactions, dismissed));
+      setKeepIds({});
+    } catch (error) {
+      toast.error("Failed to look for duplicates");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpen = () => {
+    setIsOpen(true);
+    loadCandidates();
+  };
+
+  // A transaction that was deleted can't be part of any other pair either
+  const removeTransaction = (id: string) => {
+    setCandidates((current) => current.filter((c) => c.a.id !== id && c.b.id !== id));
+  };
+
+  const resolvePair = (candidate: DuplicateCandidate) => {
+    const keepId = keepIds[candidate.key] ?? defaultKeep(candidate);
+    return keepId === candidate.a.id
+      ? { keep: candidate.a, other: candidate.b }
+      : { keep: candidate.b, other: candidate.a };
+  };
+
+  const handleMerge = async (candidate: DuplicateCandidate) => {
+    const { keep, other } = resolvePair(candidate);
+    setBusyKey(candidate.key);
+
+    try {
+      const { error } = await supabase.rpc("merge_transactions", {
+        _keep_id: keep.id,
+        _other_id: other.id,
+        _fields: mergeTransactions(keep, other),
+      });
+      if (error) throw error;
+
+      toast.success("Transactions merged");
+      removeTransaction(other.id);
+      onUpdate();
+    } catch (error) {
+      toast.error("Failed to merge transactions");
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleDelete = async (candidate: DuplicateCandidate) => {
+    const { other } = resolvePair(candidate);
+    setBusyKey(candidate.key);
+
+    try {
+      const { error } = await supabase.from("transactions").delete().eq("id", other.id);
+      if (error) throw error;
+
+      toast.success("Transaction deleted");
+      removeTransaction(other.id);
+      onUpdate();
+    } catch (error) {
+      toast.error("Failed to delete transaction");
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleKeepBoth = async (candidate: DuplicateCandidate) => {
+    const [transactionA, transactionB] = [candidate.a.id, candidate.b.id].sort();
+    setBusyKey(candidate.key);
+
+    try {
+      const { error } = await supabase.from("duplicate_dismissals").insert({
+        user_id: userId,
+        book_id: bookId,
+        transaction_a: transactionA,
+        transaction_b: transactionB,
+      });
+      if (error) throw error;
+
+      setCandidates((current) => current.filter((c) => c.key !== candidate.key));
+    } catch (error) {
+      toast.error("Failed to save decision");
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const renderRow = (t: Transaction) => (
+    <TableRow key={t.id}>
+      <TableCell>
+        <RadioGroupItem value={t.id} aria-label="Keep this transaction" />
+      </TableCell>
+      <TableCell className="whitespace-nowrap">{format(parseISO(t.date), "MM/dd/yyyy")}</TableCell>
+      <TableCell>
+        {t.category}
+        {t.subcategory && <span className="text-muted-foreground"> / {t.subcategory}</span>}
+      </TableCell>
+      <TableCell className="text-right">
+        {t.income > 0 ? formatMoney(t.income, currency) : formatMoney(-t.expense, currency)}
+      </TableCell>
+      <TableCell className="max-w-xs truncate">{t.note || "-"}</TableCell>
+      <TableCell>{t.paid_from || "-"}</TableCell>
+    </TableRow>
+  );
+
+  return (
+    <>
+      <Button variant="outline" size="lg" className="gap-2" onClick={handleOpen}>
+        <Copy className="w-4 h-4" />
+        Find Duplicates
+      </Button>
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Possible Duplicates</DialogTitle>
+            <DialogDescription>
+              Transactions with the same amount a few days apart. Choose which one to keep, then merge the pair, delete the other one, or keep both.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : candidates.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No possible duplicates found</p>
+          ) : (
+            <div className="space-y-4">
+              {candidates.slice(0, VISIBLE_PAIRS).map((candidate) => (
+                <div key={candidate.key} className="rounded-lg border p-4 space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge>{Math.round(candidate.score * 100)}% match</Badge>
+                    <span className="text-sm text-muted-foreground">{candidate.reasons.join(", ")}</span>
+                  </div>
+                  <RadioGroup
+                    value={keepIds[candidate.key] ?? defaultKeep(candidate)}
+                    onValueChange={(value) => setKeepIds({ ...keepIds, [candidate.key]: value })}
+                  >
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-[60px]">Keep</TableHead>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Category</TableHead>
+                          <TableHead className="text-right">Amount</TableHead>
+                          <TableHead>Note</TableHead>
+                          <TableHead>Paid from</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {renderRow(candidate.a)}
+                        {renderRow(candidate.b)}
+                      </TableBody>
+                    </Table>
+                  </RadioGroup>
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={busyKey !== null}
+                      onClick={() => handleKeepBoth(candidate)}
+                    >
+                      Keep both
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busyKey !== null}
+                      onClick={() => handleDelete(candidate)}
+                    >
+                      Delete other
+                    </Button>
+                    <Button size="sm" disabled={busyKey !== null} onClick={() => handleMerge(candidate)}>
+                      {busyKey === candidate.key && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      Merge
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {candidates.length > VISIBLE_PAIRS && (
+                <p className="text-sm text-muted-foreground text-center">
+                  Showing {VISIBLE_PAIRS} of {candidates.length} pairs
+                </p>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default DuplicateReview;
@@ -0,0 +1,272 @@
+import { useRef, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeftRight, Loader2, Plus, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { ExchangeRate, RateInput, isCurrencyCode, normalizeCurrency, parseRatesCSV } from "@/lib/rates";
+import { chunkRows } from "@/lib/import/upload";
+
+interface ExchangeRatesProps {
+  rates: ExchangeRate[];
+  // The book's currency, offered as the currency rates convert into
+  bookCurrency: string;
+  onChange: () => void;
+}
+
+const VISIBLE_RATES = 100;
+
+const ExchangeRates = ({ rates, bookCurrency, onChange }: ExchangeRatesProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [date, setDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [baseCurrency, setBaseCurrency] = useState("");
+  const [quoteCurrency, setQuoteCurrency] = useState(bookCurrency);
+  const [rate, setRate] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Newest first
+  const sortedRates = [...rates].sort(
+    (a, b) =>
+      b.date.localeCompare(a.date) ||
+      `${a.base_currency}/${a.quote_currency}`.localeCompare(`${b.base_currency}/${b.quote_currency}`)
+  );
+  const isPairValid =
+    isCurrencyCode(baseCurrency) &&
+    isCurrencyCode(quoteCurrency) &&
+    normalizeCurrency(baseCurrency) !== normalizeCurrency(quoteCurrency);
+
+  // A rate for a pair and day that is already known replaces the old one
+  const saveRates = async (inputs: RateInput[]) => {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) throw new Error("Not signed in");
+
+    for (const chunk of chunkRows(inputs)) {
+      const { error } = await supabase
+        .from("exchange_rates")
+        .upsert(
+          chunk.map((input) => ({ ...input, user_id: user.id })),
+          { onConflict: "user_id,base_currency,quote_currency,date" }
+        );
+      if (error) throw error;
+    }
+  };
+
+  const handleAdd = async () => {
+    const value = parseFloat(rate);
+    if (!isPairValid || !date || !(value > 0)) return;
+
+    setIsSaving(true);
+    try {
+      await saveRates([
+        {
+          base_currency: normalizeCurrency(baseCurrency),
+          quote_currency: normalizeCurrency(quoteCurrency),
+          date,
+          rate: value,
+        },
+      ]);
+      setRate("");
+      toast.success("Exchange rate saved");
+      onChange();
+    } catch (error) {
+      toast.error("Failed to save exchange rate");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsSaving(true);
+    try {
+      const { rates: parsed, errors } = parseRatesCSV(await file.text(), {
+        base_currency: baseCurrency,
+        quote_currency: quoteCurrency,
+      });
+      if (parsed.length === 0) {
+        toast.error(errors[0] ? `Line ${errors[0].line}: ${errors[0].message}` : "No exchange rates found in this file");
+        return;
+      }
+
+      await saveRates(parsed);
+      const message = `Imported ${parsed.length} exchange rates`;
+      if (errors.length > 0) {
+        toast.warning(`${message} (${errors.length} rows skipped; line ${errors[0].line}: ${errors[0].message})`);
+      } else {
+        toast.success(message);
+      }
+      onChange();
+    } catch (error) {
+      toast.error("Failed to import exchange rates");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase.from("exchange_rates").delete().eq("id", id);
+
+      if (error) throw error;
+      onChange();
+    } catch (error) {
+      toast.error("Failed to delete exchange rate");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <ArrowLeftRight className="w-4 h-4" />
+          Rates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Exchange Rates</DialogTitle>
+          <DialogDescription>
+            Transactions paid in another currency are converted into the book's currency with the latest rate
+            on or before their date
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="rate-date">Date</Label>
+              <Input id="rate-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-base">1 unit of</Label>
+              <Input
+                id="rate-base"
+                placeholder="e.g. JPY"
+                maxLength={3}
+                value={baseCurrency}
+                onChange={(e) => setBaseCurrency(e.target.value.toUpperCase())}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-quote">In</Label>
+              <Input
+                id="rate-quote"
+                maxLength={3}
+                value={quoteCurrency}
+                onChange={(e) => setQuoteCurrency(e.target.value.toUpperCase())}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-value">Rate</Label>
+              <Input
+                id="rate-value"
+                type="number"
+                step="any"
+                min="0"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+              />
+            </div>
+            <Button onClick={handleAdd} disabled={isSaving || !isPairValid || !(parseFloat(rate) > 0)} className="gap-2">
+              <Plus className="w-4 h-4" />
+              Add
+            </Button>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-xs text-muted-foreground">
+              CSV files need date and rate columns, plus from and to columns unless they hold a single pair, which
+              is then taken from the fields above.
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.txt,text/csv"
+              className="hidden"
+              onChange={handleFileSelect}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isSaving}
+              className="gap-2 shrink-0"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              Import CSV
+            </Button>
+          </div>
+
+          <div className="max-h-72 overflow-y-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Pair</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedRates.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">
+                      No exchange rates yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  sortedRates.slice(0, VISIBLE_RATES).map((r) => (
+                    <TableRow key={r.id}>
+                      <TableCell>{format(parseISO(r.date), "MM/dd/yyyy")}</TableCell>
+                      <TableCell>
+                        {r.base_currency} → {r.quote_currency}
+                      </TableCell>
+                      <TableCell className="text-right">{Number(r.rate)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(r.id)}>
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+          {sortedRates.length > VISIBLE_RATES && (
+            <p className="text-sm text-muted-foreground text-center">
+              Showing the latest {VISIBLE_RATES} of {sortedRates.length} rates
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExchangeRates;
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Book, Transaction } from "@/pages/Dashboard";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { transactionsToCSV } from "@/lib/export/csv";
+import { downloadFile, exportFileName } from "@/lib/export/download";
+import { buildWorkbook } from "@/lib/export/xlsx";
+import { buildReport } from "@/lib/export/pdf";
+import { toBeancount, toLedger } from "@/lib/export/journal";
+import { Period } from "@/lib/summaries";
+import { fetchBookTransactions } from "@/lib/transactions";
+import { RateTable, convertTransactions } from "@/lib/rates";
+
+interface ExportMenuProps {
+  book: Book;
+  // Transactions of the period shown in the charts, as saved
+  viewTransactions: Transaction[];
+  // The period selected in the chart controls
+  period: Period;
+  // Converts foreign-currency transactions for the formats that report in
+  // the book's currency
+  rateTable: RateTable;
+}
+
+type ExportScope = "view" | "book";
+
+type ExportFormat = "csv" | "xlsx" | "beancount" | "journal";
+
+const ExportMenu = ({ book, viewTransactions, period, rateTable }: ExportMenuProps) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const viewLabel = `${format(period.start, "yyyy-MM-dd")} to ${format(period.end, "yyyy-MM-dd")}`;
+
+  const converted = (transactions: Transaction[]) =>
+    convertTransactions(transactions, book.currency, rateTable).transactions;
+
+  const handleExport = async (exportFormat: ExportFormat, scope: ExportScope) => {
+    setIsExporting(true);
+    try {
+      const stored = scope === "view" ? viewTransactions : await fetchBookTransactions(book.id);
+      // CSV is read back by the importer, so it keeps the amounts as saved;
+      // the other formats report in the book's currency
+      const transactions = exportFormat === "csv" ? stored : converted(stored);
+      const fileName = exportFileName(book.name, scope === "view" ? viewLabel : "all", exportFormat);
+
+      const journalOptions = { bookName: book.name, currency: book.currency };
+
+      if (exportFormat === "csv") {
+        // The byte order mark makes Excel read the file as UTF-8
+        downloadFile("\ufeff" + transactionsToCSV(transactions), fileName, "text/csv;charset=utf-8");
+      } else if (exportFormat === "xlsx") {
+        downloadFile(
+          await buildWorkbook(transactions, book.currency),
+          fileName,
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        );
+      } else if (exportFormat === "beancount") {
+        downloadFile(toBeancount(transactions, journalOptions), fileName, "text/plain;charset=utf-8");
+      } else {
+        downloadFile(toLedger(transactions, journalOptions), fileName, "text/plain;charset=utf-8");
+      }
+      toast.success(`Exported ${transactions.length} transactions`);
+    } catch (error) {
+      toast.error("Failed to export transactions");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // The report compares with the previous period and charts the months
+  // before, so it needs the whole book
+  const handleReport = async () => {
+    setIsExporting(true);
+    try {
+      const transactions = converted(await fetchBookTransactions(book.id));
+      downloadFile(
+        await buildReport({ bookName: book.name, currency: book.currency, period, transactions }),
+        exportFileName(book.name, `report ${viewLabel}`, "pdf"),
+        "application/pdf"
+      );
+    } catch (error) {
+      toast.error("Failed to create report");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" disabled={isExporting}>
+          {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>CSV</DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => handleExport("csv", "view")} disabled={viewTransactions.length === 0}>
+          Current period
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("csv", "book")}>Whole book</DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Excel workbook</DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => handleExport("xlsx", "view")} disabled={viewTransactions.length === 0}>
+          Current period
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("xlsx", "book")}>Whole book</DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>PDF</DropdownMenuLabel>
+        <DropdownMenuItem onClick={handleReport}>Report for current period</DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Plain-text accounting</DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => handleExport("beancount", "book")}>Beancount (whole book)</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("journal", "book")}>Ledger / hledger (whole book)</DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <p className="px-2 py-1.5 text-xs text-muted-foreground max-w-[220px]">
+          CSV files can be imported again as they are.
+        </p>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,200 @@
+import { useState, useEffect, useCallback } from "react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { ImportBatch } from "@/lib/import/batches";
+
+interface ImportHistoryProps {
+  bookId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRolledBack: () => void;
+}
+
+type ImportBatchWithProfile = ImportBatch & { import_profiles: { name: string } | null };
+
+const ImportHistory = ({ bookId, open, onOpenChange, onRolledBack }: ImportHistoryProps) => {
+  const [batches, setBatches] = useState<ImportBatchWithProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [rollbackBatch, setRollbackBatch] = useState<ImportBatchWithProfile | null>(null);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+
+  const loadBatches = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("import_batches")
+        .select("*, import_profiles(name)")
+        .eq("book_id", bookId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setBatches(data || []);
+    } catch (error) {
+      toast.error("Failed to load import history");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [bookId]);
+
+  useEffect(() => {
+    if (open) loadBatches();
+  }, [open, loadBatches]);
+
+  const handleRollback = async () => {
+    if (!rollbackBatch) return;
+    setIsRollingBack(true);
+
+    try {
+      // Delete the batch's transactions first, then mark the batch itself
+      const { error: transactionsError } = await supabase
+        .from("transactions")
+        .delete()
+        .eq("import_batch_id", rollbackBatch.id);
+
+      if (transactionsError) throw transactionsError;
+
+      const { error: batchError } = await supabase
+        .from("import_batches")
+        .update({ rolled_back_at: new Date().toISOString() })
+        .eq("id", rollbackBatch.id);
+
+      if (batchError) throw batchError;
+
+      toast.success(`Rolled back import of "${rollbackBatch.file_name}"`);
+      setRollbackBatch(null);
+      loadBatches();
+      onRolledBack();
+    } catch (error) {
+      toast.error("Failed to roll back import");
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Import History</DialogTitle>
+            <DialogDescription>
+              Every file imported into this book. Rolling back an import deletes all of its transactions.
+            </DialogDescription>
+          </DialogHeader>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Imported</TableHead>
+                  <TableHead>File</TableHead>
+                  <TableHead>Profile</TableHead>
+                  <TableHead className="text-right">Rows</TableHead>
+                  <TableHead className="text-right">Added</TableHead>
+                  <TableHead className="text-right">Skipped</TableHead>
+                  <TableHead className="text-right">Errors</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batches.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center text-muted-foreground">
+                      No imports yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  batches.map((batch) => (
+                    <TableRow key={batch.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {batch.created_at ? format(parseISO(batch.created_at), "MM/dd/yyyy HH:mm") : "-"}
+                      </TableCell>
+                      <TableCell className="max-w-[200px] truncate font-medium" title={batch.file_hash}>
+                        {batch.file_name}
+                      </TableCell>
+                      <TableCell>{batch.import_profiles?.name || "-"}</TableCell>
+                      <TableCell className="text-right">{batch.row_count}</TableCell>
+                      <TableCell className="text-right">{batch.imported_count}</TableCell>
+                      <TableCell className="text-right">{batch.skipped_count}</TableCell>
+                      <TableCell className="text-right">{batch.error_count}</TableCell>
+                      <TableCell className="text-right">
+                        {batch.rolled_back_at ? (
+                          <Badge variant="outline">Rolled back</Badge>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="gap-2"
+                            onClick={() => setRollbackBatch(batch)}
+                          >
+                            <Undo2 className="w-4 h-4" />
+                            Roll back
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!rollbackBatch} onOpenChange={(open) => !open && setRollbackBatch(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll Back Import?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete the {rollbackBatch?.imported_count} transactions imported from "{rollbackBatch?.file_name}", including any edits made to them since. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRollingBack}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRollback}
+              disabled={isRollingBack}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Roll back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default ImportHistory;
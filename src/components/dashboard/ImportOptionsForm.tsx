@@ -0,0 +1,109 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ImportOptions, ResolvedFormats } from "@/lib/import/mapping";
+import { DATE_FORMATS, DateFormat, DecimalSeparator } from "@/lib/import/normalize";
+
+interface ImportOptionsFormProps {
+  options: ImportOptions;
+  onChange: (options: ImportOptions) => void;
+  // What "Automatic" resolves to for the current file
+  detected?: ResolvedFormats;
+}
+
+const ImportOptionsForm = ({ options, onChange, detected }: ImportOptionsFormProps) => {
+  const update = (changes: Partial<ImportOptions>) => onChange({ ...options, ...changes });
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="import-date-format">Date format</Label>
+        <Select
+          value={options.dateFormat}
+          onValueChange={(value) => update({ dateFormat: value as DateFormat })}
+        >
+          <SelectTrigger id="import-date-format">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DATE_FORMATS.map((format) => (
+              <SelectItem key={format.value} value={format.value}>
+                {format.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {detected && options.dateFormat === "auto" && (
+          <p className="text-xs text-muted-foreground">
+            {detected.ambiguousDates
+              ? `Could be MM/DD or DD/MM; reading as ${detected.dateFormat}`
+              : `Detected ${detected.dateFormat}`}
+          </p>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="import-decimal-separator">Decimal separator</Label>
+        <Select
+          value={options.decimalSeparator}
+          onValueChange={(value) => update({ decimalSeparator: value as DecimalSeparator })}
+        >
+          <SelectTrigger id="import-decimal-separator">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="auto">Automatic</SelectItem>
+            <SelectItem value=".">Dot (1,234.56)</SelectItem>
+            <SelectItem value=",">Comma (1.234,56)</SelectItem>
+          </SelectContent>
+        </Select>
+        {detected && options.decimalSeparator === "auto" && (
+          <p className="text-xs text-muted-foreground">
+            Detected {detected.decimalSeparator === "," ? "comma" : "dot"}
+          </p>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="import-invert-signs">Signed amounts</Label>
+        <div className="flex items-center gap-2 h-10">
+          <Checkbox
+            id="import-invert-signs"
+            checked={options.signConvention === "negative-income"}
+            onCheckedChange={(checked) =>
+              update({ signConvention: checked === true ? "negative-income" : "negative-expense" })
+            }
+          />
+          <Label htmlFor="import-invert-signs" className="font-normal">
+            Invert signs (credit card exports)
+          </Label>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="import-default-category">Default category</Label>
+        <Input
+          id="import-default-category"
+          placeholder="e.g., Uncategorized"
+          value={options.defaultCategory}
+          onChange={(e) => update({ defaultCategory: e.target.value })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="import-default-paid-from">Default paid from</Label>
+        <Input
+          id="import-default-paid-from"
+          placeholder="e.g., Checking"
+          value={options.defaultPaidFrom}
+          onChange={(e) => update({ defaultPaidFrom: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ImportOptionsForm;
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ParsedTransaction } from "@/lib/import/types";
+import { REVIEW_STATUSES, ReviewRow, ReviewStatus, isInvalidStatus } from "@/lib/import/review";
+import { moneyFormatter } from "@/lib/money";
+
+interface ImportPreviewProps {
+  rows: ReviewRow[];
+  // The book's currency code
+  currency: string;
+  included: Set<number>;
+  // Values fixed inline so far, keyed by row id
+  edits: Record<number, Partial<ParsedTransaction>>;
+  onIncludedChange: (ids: number[], included: boolean) => void;
+  onEdit: (id: number, changes: Partial<ParsedTransaction>) => void;
+}
+
+const PAGE_SIZE = 100;
+
+const ALL_ROWS = "all";
+
+const STATUS_VARIANTS: Record<ReviewStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  new: "default",
+  duplicate: "secondary",
+  "invalid-date": "destructive",
+  "missing-category": "destructive",
+};
+
+const ImportPreview = ({ rows, currency, included, edits, onIncludedChange, onEdit }: ImportPreviewProps) => {
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | typeof ALL_ROWS>(ALL_ROWS);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const money = moneyFormatter(currency);
+
+  const filteredRows = statusFilter === ALL_ROWS ? rows : rows.filter((r) => r.status === statusFilter);
+  const displayedRows = filteredRows.slice(0, visibleCount);
+  const selectableIds = filteredRows.filter((r) => !isInvalidStatus(r.status)).map((r) => r.id);
+  const allSelected = selectableIds.length > 0 && selectableIds.every((id) => included.has(id));
+
+  const countOf = (status: ReviewStatus) => rows.filter((r) => r.status === status).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {REVIEW_STATUSES.map((status) => (
+          <Badge key={status.value} variant={STATUS_VARIANTS[status.value]}>
+            {countOf(status.value)} {status.label.toLowerCase()}
+          </Badge>
+        ))}
+        <div className="ml-auto">
+          <Select
+            value={statusFilter}
+            onValueChange={(value) => {
+              setStatusFilter(value as ReviewStatus | typeof ALL_ROWS);
+              setVisibleCount(PAGE_SIZE);
+            }}
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_ROWS}>All rows</SelectItem>
+              {REVIEW_STATUSES.map((status) => (
+                <SelectItem key={status.value} value={status.value}>
+                  {status.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[40px]">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => onIncludedChange(selectableIds, checked === true)}
+                  disabled={selectableIds.length === 0}
+                  aria-label="Select all rows"
+                />
+              </TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead>Subcategory</TableHead>
+              <TableHead className="text-right">Income</TableHead>
+              <TableHead className="text-right">Expense</TableHead>
+              <TableHead>Note</TableHead>
+              <TableHead>Paid from</TableHead>
+              <TableHead>Labels</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {displayedRows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={10} className="text-center text-muted-foreground">
+                  No rows to show
+                </TableCell>
+              </TableRow>
+            ) : (
+              displayedRows.map((row) => {
+                const t = row.transaction;
+                const invalid = isInvalidStatus(row.status);
+                const rowEdits = edits[row.id] ?? {};
+
+                return (
+                  <TableRow key={row.id} className={included.has(row.id) ? undefined : "opacity-60"}>
+                    <TableCell>
+                      <Checkbox
+                        checked={included.has(row.id)}
+                        onCheckedChange={(checked) => onIncludedChange([row.id], checked === true)}
+                        disabled={invalid}
+                        aria-label="Import this row"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[row.status]} title={row.message ?? undefined}>
+                        {REVIEW_STATUSES.find((s) => s.value === row.status)?.label}
+                      </Badge>
+                      {row.line !== null && (
+                        <p className="text-xs text-muted-foreground mt-1">Line {row.line}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      {row.status === "invalid-date" || "date" in rowEdits ? (
+                        <Input
+                          type="date"
+                          className="w-[150px]"
+                          aria-label="Date"
+                          value={rowEdits.date ?? ""}
+                          onChange={(e) => onEdit(row.id, { date: e.target.value })}
+                        />
+                      ) : (
+                        format(parseISO(t.date), "MM/dd/yyyy")
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {row.status === "missing-category" || "category" in rowEdits ? (
+                        <Input
+                          className="w-[140px]"
+                          placeholder="Category"
+                          value={t.category}
+                          onChange={(e) => onEdit(row.id, { category: e.target.value })}
+                        />
+                      ) : (
+                        t.category
+                      )}
+                    </TableCell>
+                    <TableCell>{t.subcategory || "-"}</TableCell>
+                    <TableCell className="text-right text-primary">
+                      {t.income > 0 ? money(t.income) : "-"}
+                    </TableCell>
+                    <TableCell className="text-right text-secondary">
+                      {t.expense > 0 ? money(t.expense) : "-"}
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate">{t.note || "-"}</TableCell>
+                    <TableCell>{t.paid_from || "-"}</TableCell>
+                    <TableCell className="max-w-[160px] truncate">{t.labels?.join(", ") || "-"}</TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {filteredRows.length > displayedRows.length && (
+        <div className="flex items-center justify-center gap-4">
+          <p className="text-sm text-muted-foreground">
+            Showing {displayedRows.length} of {filteredRows.length} rows
+          </p>
+          <Button variant="outline" size="sm" onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}>
+            Show more
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportPreview;
@@ -0,0 +1,562 @@
+import { useState, useMemo, useEffect } from "react";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { AlertTriangle, Loader2, Save } from "lucide-react";
+import { toast } from "sonner";
+import ImportOptionsForm from "@/components/dashboard/ImportOptionsForm";
+import ImportPreview from "@/components/dashboard/ImportPreview";
+import { ImportRowError, ImportSource, ImportTable, ParsedTransaction } from "@/lib/import/types";
+import {
+  ColumnMapping,
+  DEFAULT_IMPORT_OPTIONS,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportOptions,
+  MappedRow,
+  guessMapping,
+  resolveFormats,
+  sampleValues,
+  validateMapping,
+  validateTransaction,
+} from "@/lib/import/mapping";
+import {
+  ImportProfile,
+  ImportProfileRecord,
+  buildProfileRecord,
+  findMatchingProfile,
+  profileMapping,
+  profileOptions,
+} from "@/lib/import/profiles";
+import { ImportSummary } from "@/lib/import/batches";
+import { TEXT_ENCODINGS, TextEncoding } from "@/lib/import/encoding";
+import { mergeLabels, parseLabels } from "@/lib/import/labels";
+import { isInvalidStatus, reviewTransactions } from "@/lib/import/review";
+import { ImportRow, numberOccurrences } from "@/lib/import/fingerprint";
+import { isCancelled, mapRowsInBackground } from "@/lib/import/worker";
+import { chunkRows } from "@/lib/import/upload";
+
+interface ImportWizardProps {
+  bookId: string;
+  // The book's currency code
+  currency: string;
+  fileName: string;
+  source: ImportSource;
+  parseErrors: ImportRowError[];
+  // How a text file was decoded; changing it reads the file again
+  encoding?: TextEncoding;
+  isReading: boolean;
+  // Files still waiting to be imported after this one
+  queuedCount: number;
+  onEncodingChange: (encoding: TextEncoding) => void;
+  profiles: ImportProfile[];
+  onSaveProfile: (record: ImportProfileRecord, bookOnly: boolean) => Promise<ImportProfile | null>;
+  // Resolves to the positions of the given rows that the book already has
+  findDuplicates: (rows: ImportRow[]) => Promise<number[]>;
+  onCancel: () => void;
+  onConfirm: (rows: ImportRow[], summary: ImportSummary) => void;
+}
+
+const NO_PROFILE = "none";
+
+const EMPTY_TABLE: ImportTable = { headers: [], rows: [] };
+
+interface MappedResult {
+  rows: MappedRow[];
+  errors: ImportRowError[];
+  occurrences: number[];
+}
+
+const ImportWizard = ({
+  bookId,
+  currency,
+  fileName,
+  source,
+  parseErrors,
+  encoding,
+  isReading,
+  queuedCount,
+  onEncodingChange,
+  profiles,
+  onSaveProfile,
+  findDuplicates,
+  onCancel,
+  onConfirm,
+}: ImportWizardProps) => {
+  // Statement formats (OFX, ...) are already normalized and skip column mapping
+  const isTabular = source.kind !== "statement";
+  const sheets = source.kind === "workbook"
+    ? source.sheets
+    : source.kind === "table"
+      ? [{ name: fileName, table: source.table }]
+      : [];
+  const [sheetIndex, setSheetIndex] = useState(() =>
+    Math.max(0, sheets.findIndex((sheet) => sheet.table.rows.length > 0))
+  );
+  const table: ImportTable = sheets[sheetIndex]?.table ?? EMPTY_TABLE;
+  const matchedProfile = useMemo(
+    () => (isTabular ? findMatchingProfile(profiles, table.headers, bookId) : null),
+    [isTabular, profiles, table, bookId]
+  );
+
+  const [step, setStep] = useState<"mapping" | "preview">(isTabular ? "mapping" : "preview");
+  const [profileId, setProfileId] = useState(matchedProfile?.id ?? NO_PROFILE);
+  const [mapping, setMapping] = useState<ColumnMapping>(() =>
+    matchedProfile ? profileMapping(matchedProfile, table.headers) : guessMapping(table.headers)
+  );
+  const [options, setOptions] = useState<ImportOptions>(() =>
+    matchedProfile ? profileOptions(matchedProfile) : DEFAULT_IMPORT_OPTIONS
+  );
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+  const [profileName, setProfileName] = useState("");
+  const [profileBookOnly, setProfileBookOnly] = useState(false);
+  const [edits, setEdits] = useState<Record<number, Partial<ParsedTransaction>>>({});
+  const [selection, setSelection] = useState<Record<number, boolean>>({});
+  const [duplicates, setDuplicates] = useState<Set<number> | null>(null);
+  const [duplicateCheckFailed, setDuplicateCheckFailed] = useState(false);
+  const [result, setResult] = useState<MappedResult | null>(null);
+  // Labels added to every row of this import, e.g. "trip-japan-2026"
+  const [extraLabels, setExtraLabels] = useState("");
+
+  const mappingError = validateMapping(mapping);
+  const detectedFormats = useMemo(
+    () => resolveFormats(table, mapping, options),
+    [table, mapping, options]
+  );
+
+  // Mapping a large table runs in the import worker; a newer mapping or
+  // leaving the preview cancels the one in flight
+  useEffect(() => {
+    setResult(null);
+    if (step !== "preview") return;
+    if (source.kind === "statement") {
+      setResult({
+        rows: source.transactions.map((transaction) => ({ line: null, transaction })),
+        errors: parseErrors,
+        occurrences: numberOccurrences(source.transactions),
+      });
+      return;
+    }
+
+    const task = mapRowsInBackground(table, mapping, options);
+    task.promise
+      .then(({ rows, errors, occurrences }) =>
+        setResult({
+          rows,
+          errors: [...parseErrors, ...errors].sort((a, b) => a.line - b.line),
+          occurrences,
+        })
+      )
+      .catch((error) => {
+        if (isCancelled(error)) return;
+        toast.error("Failed to read rows");
+        setStep("mapping");
+      });
+
+    return () => task.cancel();
+  }, [step, source, table, mapping, options, parseErrors]);
+
+  // Ask the database which rows it already has, one chunk at a time. Rows
+  // fixed inline afterwards are not re-checked; the import itself still skips
+  // them if they exist, as it does when the check fails.
+  useEffect(() => {
+    if (!result) return;
+    let cancelled = false;
+    setDuplicates(null);
+    setDuplicateCheckFailed(false);
+
+    const { occurrences } = result;
+    const ids = result.rows.map((_, id) => id).filter((id) => !validateTransaction(result.rows[id].transaction));
+    const checkDuplicates = async () => {
+      const found = new Set<number>();
+      for (const chunk of chunkRows(ids)) {
+        const positions = await findDuplicates(
+          chunk.map((id) => ({ ...result.rows[id].transaction, occurrence: occurrences[id] }))
+        );
+        if (cancelled) return;
+        for (const p of positions) found.add(chunk[p]);
+      }
+      setDuplicates(found);
+    };
+    checkDuplicates().catch(() => {
+      if (cancelled) return;
+      toast.error("Failed to check for duplicate transactions");
+      setDuplicateCheckFailed(true);
+      setDuplicates(new Set());
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [result, findDuplicates]);
+
+  const reviewRows = useMemo(() => {
+    if (!result || !duplicates) return null;
+    const batchLabels = parseLabels(extraLabels);
+    const rows = result.rows.map((row, id) => {
+      const transaction = edits[id] ? { ...row.transaction, ...edits[id] } : row.transaction;
+      return {
+        line: row.line,
+        transaction: { ...transaction, labels: mergeLabels(transaction.labels, batchLabels) },
+      };
+    });
+    return reviewTransactions(rows, duplicates);
+  }, [result, duplicates, edits, extraLabels]);
+
+  // New rows are ticked by default, duplicates are not, and rows that still
+  // need fixing can never be
+  const included = useMemo(
+    () =>
+      new Set(
+        (reviewRows ?? [])
+          .filter((r) => !isInvalidStatus(r.status) && (selection[r.id] ?? r.status === "new"))
+          .map((r) => r.id)
+      ),
+    [reviewRows, selection]
+  );
+
+  const handleIncludedChange = (ids: number[], checked: boolean) => {
+    setSelection({ ...selection, ...Object.fromEntries(ids.map((id) => [id, checked])) });
+  };
+
+  const handleEdit = (id: number, changes: Partial<ParsedTransaction>) => {
+    setEdits({ ...edits, [id]: { ...edits[id], ...changes } });
+  };
+
+  const handleNext = () => {
+    setEdits({});
+    setSelection({});
+    setStep("preview");
+  };
+
+  const handleConfirm = () => {
+    if (!result || !reviewRows) return;
+    const invalidCount = reviewRows.filter((r) => isInvalidStatus(r.status)).length;
+    const occurrences = numberOccurrences(reviewRows.map((r) => r.transaction));
+    const rows = reviewRows
+      .filter((r) => included.has(r.id))
+      .map((r) => ({ ...r.transaction, occurrence: occurrences[r.id], line: r.line }));
+    onConfirm(rows, {
+      profileId: profileId === NO_PROFILE ? null : profileId,
+      rowCount: result.errors.length + reviewRows.length,
+      skippedCount: reviewRows.length - included.size - invalidCount,
+      errorCount: result.errors.length + invalidCount,
+    });
+  };
+
+  const handleFieldChange = (columnIndex: number, field: ImportField) => {
+    setMapping(mapping.map((f, i) => (i === columnIndex ? field : f)));
+  };
+
+  const applyProfile = (headers: string[], profile: ImportProfile | null) => {
+    setProfileId(profile?.id ?? NO_PROFILE);
+    setMapping(profile ? profileMapping(profile, headers) : guessMapping(headers));
+    setOptions(profile ? profileOptions(profile) : DEFAULT_IMPORT_OPTIONS);
+  };
+
+  const handleProfileChange = (value: string) => {
+    applyProfile(table.headers, profiles.find((p) => p.id === value) ?? null);
+  };
+
+  const handleSheetChange = (value: string) => {
+    const index = Number(value);
+    const headers = sheets[index].table.headers;
+    setSheetIndex(index);
+    applyProfile(headers, findMatchingProfile(profiles, headers, bookId));
+  };
+
+  const handleSaveProfile = async () => {
+    if (!profileName.trim()) return;
+
+    const record = buildProfileRecord(profileName.trim(), table.headers, mapping, options);
+    const saved = await onSaveProfile(record, profileBookOnly);
+    if (saved) {
+      setProfileId(saved.id);
+      setProfileName("");
+      setIsSavingProfile(false);
+    }
+  };
+
+  const encodingSelect = encoding && (
+    <div className="space-y-2">
+      <Label htmlFor="import-encoding">File encoding</Label>
+      <Select
+        value={encoding}
+        onValueChange={(value) => onEncodingChange(value as TextEncoding)}
+        disabled={isReading}
+      >
+        <SelectTrigger id="import-encoding" className="w-[220px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {TEXT_ENCODINGS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {step === "mapping" ? "Map Columns" : "Preview Import"}
+          </DialogTitle>
+          <DialogDescription>
+            {step === "mapping"
+              ? `Choose which transaction field each column of "${fileName}" holds`
+              : source.kind === "statement"
+                ? `Review the ${source.format} statement "${fileName}" and choose which rows to import`
+                : `Review "${fileName}" and choose which rows to import`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "mapping" ? (
+          <div className="space-y-6">
+            <div className="flex flex-wrap items-end gap-3">
+              {encodingSelect}
+              {source.kind === "workbook" && (
+                <div className="space-y-2">
+                  <Label htmlFor="import-sheet">Worksheet</Label>
+                  <Select value={String(sheetIndex)} onValueChange={handleSheetChange}>
+                    <SelectTrigger id="import-sheet" className="w-[200px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sheets.map((sheet, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {sheet.name} ({sheet.table.rows.length} rows)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="import-profile">Import profile</Label>
+                <Select value={profileId} onValueChange={handleProfileChange}>
+                  <SelectTrigger id="import-profile" className="w-[240px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PROFILE}>No profile</SelectItem>
+                    {profiles.map((profile) => (
+                      <SelectItem key={profile.id} value={profile.id}>
+                        {profile.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {isSavingProfile ? (
+                <>
+                  <Input
+                    className="w-[200px]"
+                    placeholder="Profile name"
+                    value={profileName}
+                    onChange={(e) => setProfileName(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleSaveProfile()}
+                    autoFocus
+                  />
+                  <div className="flex items-center gap-2 h-10">
+                    <Checkbox
+                      id="import-profile-book-only"
+                      checked={profileBookOnly}
+                      onCheckedChange={(checked) => setProfileBookOnly(checked === true)}
+                    />
+                    <Label htmlFor="import-profile-book-only">This book only</Label>
+                  </div>
+                  <Button onClick={handleSaveProfile} disabled={!profileName.trim()}>
+                    Save
+                  </Button>
+                  <Button variant="ghost" onClick={() => setIsSavingProfile(false)}>
+                    Cancel
+                  </Button>
+                </>
+              ) : (
+                <Button variant="outline" className="gap-2" onClick={() => setIsSavingProfile(true)}>
+                  <Save className="w-4 h-4" />
+                  Save as profile
+                </Button>
+              )}
+            </div>
+            {matchedProfile && profileId === matchedProfile.id && (
+              <p className="text-sm text-muted-foreground">
+                Using profile "{matchedProfile.name}" because its columns match this file.
+              </p>
+            )}
+
+            <ImportOptionsForm options={options} onChange={setOptions} detected={detectedFormats} />
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Column</TableHead>
+                  <TableHead>Sample values</TableHead>
+                  <TableHead className="w-[200px]">Import as</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {table.headers.map((header, index) => (
+                  <TableRow key={index}>
+                    <TableCell className="font-medium">{header || `Column ${index + 1}`}</TableCell>
+                    <TableCell className="max-w-xs truncate text-muted-foreground">
+                      {sampleValues(table, index).join(", ") || "-"}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={mapping[index]}
+                        onValueChange={(value) => handleFieldChange(index, value as ImportField)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {IMPORT_FIELDS.map((field) => (
+                            <SelectItem key={field.value} value={field.value}>
+                              {field.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : !result ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Reading rows...
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              {!isTabular && encodingSelect}
+              <div className="space-y-2">
+                <Label htmlFor="import-extra-labels">Labels for every row</Label>
+                <Input
+                  id="import-extra-labels"
+                  className="w-[280px]"
+                  placeholder="e.g. trip-japan-2026, vacation"
+                  value={extraLabels}
+                  onChange={(e) => setExtraLabels(e.target.value)}
+                />
+              </div>
+            </div>
+            {result.errors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>
+                  {result.errors.length} row{result.errors.length === 1 ? "" : "s"} could not be read
+                </AlertTitle>
+                <AlertDescription>
+                  {result.errors.slice(0, 5).map((e, i) => (
+                    <p key={i}>Line {e.line}: {e.message}</p>
+                  ))}
+                  {result.errors.length > 5 && <p>…and {result.errors.length - 5} more</p>}
+                </AlertDescription>
+              </Alert>
+            )}
+            {duplicateCheckFailed && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Could not check for duplicates</AlertTitle>
+                <AlertDescription>
+                  Rows the book already has are not marked below, but they are still skipped when importing.
+                </AlertDescription>
+              </Alert>
+            )}
+            {reviewRows ? (
+              <ImportPreview
+                rows={reviewRows}
+                currency={currency}
+                included={included}
+                edits={edits}
+                onIncludedChange={handleIncludedChange}
+                onEdit={handleEdit}
+              />
+            ) : (
+              <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Checking for duplicates...
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {queuedCount > 0 && (
+            <p className="text-sm text-muted-foreground self-center mr-auto">
+              {queuedCount} more file{queuedCount === 1 ? "" : "s"} after this one
+            </p>
+          )}
+          {step === "mapping" ? (
+            <>
+              {mappingError && (
+                <p className="text-sm text-destructive self-center mr-auto">{mappingError}</p>
+              )}
+              <Button variant="outline" onClick={onCancel}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleNext}
+                disabled={!!mappingError || table.rows.length === 0}
+              >
+                Next
+              </Button>
+            </>
+          ) : (
+            <>
+              {isTabular ? (
+                <Button variant="outline" onClick={() => setStep("mapping")}>
+                  Back
+                </Button>
+              ) : (
+                <Button variant="outline" onClick={onCancel}>
+                  Cancel
+                </Button>
+              )}
+              <Button onClick={handleConfirm} disabled={included.size === 0}>
+                Import {included.size} transactions
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportWizard;
@@ -23,16 +23,25 @@ import {
 } from "@/components/ui/dialog";
 import { Pencil, Trash2 } from "lucide-react";
 import { toast } from "sonner";
+import { currencyDigits, formatMoney, moneyFormatter } from "@/lib/money";
+import { RateTable, convertTransactions, isForeign, normalizeCurrency } from "@/lib/rates";
 
 interface TransactionsTableProps {
   transactions: Transaction[];
+  // The book's currency code
+  currency: string;
+  // Shows foreign-currency amounts converted, while edits keep working on
+  // the amounts as saved
+  rateTable: RateTable;
   onUpdate: () => void;
 }
 
-const TransactionsTable = ({ transactions, onUpdate }: TransactionsTableProps) => {
+const TransactionsTable = ({ transactions, currency, rateTable, onUpdate }: TransactionsTableProps) => {
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
   const [formData, setFormData] = useState<Partial<Transaction>>({});
   const [itemsPerPage, setItemsPerPage] = useState(50);
+  const money = moneyFormatter(currency);
+  const amountStep = 10 ** -currencyDigits(currency);
 
   const handleEdit = (transaction: Transaction) => {
     setEditingTransaction(transaction);
@@ -41,6 +50,7 @@ const TransactionsTable = ({ transactions, onUpdate }: TransactionsTableProps) =
 
   const handleSave = async () => {
     if (!editingTransaction) return;
+    const originalCurrency = formData.original_currency ? normalizeCurrency(formData.original_currency) : null;
 
     try {
       const { error } = await supabase
@@ -52,6 +62,8 @@ const TransactionsTable = ({ transactions, onUpdate }: TransactionsTableProps) =
           expense: formData.expense,
           note: formData.note,
           labels: formData.labels,
+          original_currency: originalCurrency,
+          original_amount: originalCurrency ? formData.original_amount ?? null : null,
         })
         .eq("id", editingTransaction.id);
 
@@ -81,6 +93,15 @@ const TransactionsTable = ({ transactions, onUpdate }: TransactionsTableProps) =
   };
 
   const displayedTransactions = transactions.slice(0, itemsPerPage);
+  const displayedAmounts = convertTransactions(displayedTransactions, currency, rateTable).transactions;
+
+  // The amount as paid, below the book amount, for foreign-currency rows
+  const originalAmount = (transaction: Transaction) =>
+    isForeign(transaction, currency) && (
+      <div className="text-xs text-muted-foreground font-normal">
+        {formatMoney(transaction.original_amount, transaction.original_currency)}
+      </div>
+    );
 
   return (
     <>
@@ -136,7 +157,7 @@ const TransactionsTable = ({ transactions, onUpdate }: TransactionsTableProps) =
                     </TableCell>
                   </TableRow>
                 ) : (
-                  displayedTransactions.map((transaction) => (
+                  displayedTransactions.map((transaction, index) => (
                     <TableRow key={transaction.id}>
                       <TableCell className="font-medium">
                         {format(parseISO(transaction.date), "MM/dd/yyyy")}
@@ -144,10 +165,12 @@ const TransactionsTable = ({ transactions, onUpdate }: TransactionsTableProps) =
                       <TableCell>{transaction.category}</TableCell>
                       <TableCell>{transaction.subcategory || "-"}</TableCell>
                       <TableCell className="text-right text-primary font-medium">
-                        {transaction.income > 0 ? `$${transaction.income.toFixed(2)}` : "-"}
+                        {displayedAmounts[index].income > 0 ? money(displayedAmounts[index].income) : "-"}
+                        {transaction.income > 0 && originalAmount(transaction)}
                       </TableCell>
                       <TableCell className="text-right text-secondary font-medium">
-                        {transaction.expense > 0 ? `$${transaction.expense.toFixed(2)}` : "-"}
+                        {displayedAmounts[index].expense > 0 ? money(displayedAmounts[index].expense) : "-"}
+                        {transaction.income <= 0 && originalAmount(transaction)}
                       </TableCell>
                       <TableCell className="max-w-xs truncate">
                         {transaction.note || "-"}
@@ -212,7 +235,7 @@ const TransactionsTable = ({ transactions, onUpdate }: TransactionsTableProps) =
                 <Label>Income</Label>
                 <Input
                   type="number"
-                  step="0.01"
+                  step={amountStep}
                   value={formData.income || 0}
                   onChange={(e) =>
                     setFormData({ ...formData, income: parseFloat(e.target.value) || 0 })
@@ -223,7 +246,7 @@ const TransactionsTable = ({ transactions, onUpdate }: TransactionsTableProps) =
                 <Label>Expense</Label>
                 <Input
                   type="number"
-                  step="0.01"
+                  step={amountStep}
                   value={formData.expense || 0}
                   onChange={(e) =>
                     setFormData({ ...formData, expense: parseFloat(e.target.value) || 0 })
@@ -231,6 +254,36 @@ const TransactionsTable = ({ transactions, onUpdate }: TransactionsTableProps) =
                 />
               </div>
             </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Original currency</Label>
+                <Input
+                  placeholder={currency}
+                  maxLength={3}
+                  value={formData.original_currency || ""}
+                  onChange={(e) => setFormData({ ...formData, original_currency: e.target.value.toUpperCase() })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Original amount</Label>
+                <Input
+                  type="number"
+                  step="any"
+                  disabled={!formData.original_currency}
+                  value={formData.original_amount ?? ""}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      original_amount: e.target.value ? Math.abs(parseFloat(e.target.value)) || 0 : null,
+                    })
+                  }
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              For purchases paid in another currency. Income and expense above are saved in {currency}; while an
+              exchange rate is known, totals and the table use the converted original amount instead.
+            </p>
             <div className="space-y-2">
               <Label>Note</Label>
               <Input
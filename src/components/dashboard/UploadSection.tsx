@@ -1,245 +1,583 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Upload, FileSpreadsheet, Loader2 } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle, Upload, FileSpreadsheet, History, Loader2, RotateCcw } from "lucide-react";
 import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { ACCEPTED_EXTENSIONS, ParseStage, unsupportedFormatMessage } from "@/lib/import/formats";
+import { ImportRowError, ImportSource, ParsedImport } from "@/lib/import/types";
+import { ImportProfile, ImportProfileRecord } from "@/lib/import/profiles";
+import { ImportRow, toImportPayload } from "@/lib/import/fingerprint";
+import { ImportSummary, hashFile } from "@/lib/import/batches";
+import { FailedImportRow, importInChunks } from "@/lib/import/upload";
+import { TextEncoding } from "@/lib/import/encoding";
+import { DateFormat, displayDateFormat } from "@/lib/import/normalize";
+import { pastedFile } from "@/lib/import/paste";
+import { WorkerTask, isCancelled, parseFileInBackground } from "@/lib/import/worker";
+import ImportWizard from "@/components/dashboard/ImportWizard";
+import ImportHistory from "@/components/dashboard/ImportHistory";
+import DuplicateReview from "@/components/dashboard/DuplicateReview";
 
 interface UploadSectionProps {
   bookId: string;
+  // The book's currency code
+  currency: string;
   userId: string;
   onUploadComplete: () => void;
 }
 
-const UploadSection = ({ bookId, userId, onUploadComplete }: UploadSectionProps) => {
+interface PendingImport {
+  file: File;
+  fileHash: string;
+  source: ImportSource;
+  errors: ImportRowError[];
+  encoding?: TextEncoding;
+}
+
+interface BatchCounts {
+  imported: number;
+  skipped: number;
+  errors: number;
+}
+
+interface FailedImport {
+  batchId: string;
+  fileName: string;
+  rows: FailedImportRow[];
+  counts: BatchCounts;
+}
+
+interface ReadProgress {
+  fileName: string;
+  stage: ParseStage;
+  loaded: number;
+  total: number;
+}
+
+const FAILED_ROWS_SHOWN = 10;
+
+const UploadSection = ({ bookId, currency, userId, onUploadComplete }: UploadSectionProps) => {
   const [isUploading, setIsUploading] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [progress, setProgress] = useState<{ processed: number; total: number } | null>(null);
+  const [failedImport, setFailedImport] = useState<FailedImport | null>(null);
+  const [readProgress, setReadProgress] = useState<ReadProgress | null>(null);
+  // Files dropped or chosen together wait here and are imported one by one
+  const [queuedFiles, setQueuedFiles] = useState<File[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  // From choosing a file until its wizard opens, including hashing it after
+  // it was read, so the queue doesn't open the next file in between
+  const [isOpening, setIsOpening] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const parseTaskRef = useRef<WorkerTask<ParsedImport | null> | null>(null);
+
+  // Stop reading a file when leaving the dashboard
+  useEffect(() => () => parseTaskRef.current?.cancel(), []);
 
-  const parseCSVLine = (line: string): string[] => {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
+  const loadProfiles = useCallback(
+    async () => {
+      try {
+        const { data, error } = await supabase
+          .from("import_profiles")
+          .select("*")
+          .or(`book_id.is.null,book_id.eq.${bookId}`)
+          .order("name");
+
+        if (error) throw error;
+        setProfiles(data || []);
+      } catch (error) {
+        toast.error("Failed to load import profiles");
       }
-    }
-    result.push(current.trim());
-    return result;
-  };
+    },
+    [bookId]
+  );
 
-  const parseNumber = (value: string): number => {
-    if (!value) return 0;
-    // Remove commas and parse
-    const cleaned = value.replace(/,/g, '');
-    return parseFloat(cleaned) || 0;
-  };
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
 
-  const normalizeDate = (dateStr: string): string => {
-    if (!dateStr) return '';
-    
-    // Try to parse different date formats
-    const cleaned = dateStr.trim();
-    
-    // Format: YYYY/MM/DD or YYYY-MM-DD
-    if (/^\d{4}[/-]\d{1,2}[/-]\d{1,2}$/.test(cleaned)) {
-      const parts = cleaned.split(/[/-]/);
-      const year = parts[0];
-      const month = parts[1].padStart(2, '0');
-      const day = parts[2].padStart(2, '0');
-      return `${year}-${month}-${day}`;
-    }
-    
-    // Format: MM/DD/YYYY or MM-DD-YYYY
-    if (/^\d{1,2}[/-]\d{1,2}[/-]\d{4}$/.test(cleaned)) {
-      const parts = cleaned.split(/[/-]/);
-      const year = parts[2];
-      const month = parts[0].padStart(2, '0');
-      const day = parts[1].padStart(2, '0');
-      return `${year}-${month}-${day}`;
+  useEffect(() => {
+    setFailedImport(null);
+    setQueuedFiles([]);
+  }, [bookId]);
+
+  const isBusy = isUploading || isOpening || !!pendingImport || !!readProgress;
+
+  // Rows copied from a spreadsheet or a bank website can be pasted anywhere
+  // on the dashboard, except into a text field
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, [contenteditable='true'], [role='dialog']")) return;
+      if (!e.clipboardData) return;
+
+      const file = pastedFile(e.clipboardData);
+      if (!file) return;
+      e.preventDefault();
+      setQueuedFiles((current) => [...current, file]);
+    };
+
+    document.addEventListener("paste", handlePaste);
+    return () => document.removeEventListener("paste", handlePaste);
+  }, []);
+
+  const handleSaveProfile = async (record: ImportProfileRecord, bookOnly: boolean) => {
+    try {
+      const { data, error } = await supabase
+        .from("import_profiles")
+        .insert({
+          ...record,
+          user_id: userId,
+          book_id: bookOnly ? bookId : null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setProfiles((current) => [...current, data].sort((a, b) => a.name.localeCompare(b.name)));
+      toast.success(`Saved import profile "${data.name}"`);
+      return data;
+    } catch (error) {
+      toast.error("Failed to save import profile");
+      return null;
     }
-    
-    return cleaned;
   };
 
-  const parseCSV = (text: string): any[] => {
-    const lines = text.trim().split("\n");
-    const headers = parseCSVLine(lines[0]).map(h => h.trim().toLowerCase());
-    
-    const transactions = [];
-    for (let i = 1; i < lines.length; i++) {
-      const values = parseCSVLine(lines[i]);
-      if (values.length < 3) continue;
-
-      const transaction: any = {};
-      headers.forEach((header, index) => {
-        const value = values[index] || "";
-        
-        // Map headers (English and Chinese)
-        if (header.includes("date") || header === "date") {
-          transaction.date = normalizeDate(value);
-        }
-        else if (header.includes("category") && !header.includes("sub")) {
-          transaction.category = value;
-        }
-        else if (header.includes("subcategory") || header.includes("sub")) {
-          transaction.subcategory = value;
-        }
-        else if (header.includes("income")) {
-          transaction.income = parseNumber(value);
+  // Duplicate detection runs in the database against the stored fingerprints
+  const findDuplicates = useCallback(
+    async (rows: ImportRow[]) => {
+      const { data, error } = await supabase.rpc("find_duplicate_transactions", {
+        _book_id: bookId,
+        _transactions: toImportPayload(rows),
+      });
+
+      if (error) throw error;
+      return data || [];
+    },
+    [bookId]
+  );
+
+  // The date is shown in the date format of the profile the file was
+  // imported with
+  const warnIfImportedBefore = useCallback(
+    async (fileHash: string) => {
+      const { data } = await supabase
+        .from("import_batches")
+        .select("file_name, created_at, import_profiles(date_format)")
+        .eq("book_id", bookId)
+        .eq("file_hash", fileHash)
+        .is("rolled_back_at", null)
+        .order("created_at", { ascending: false })
+        .limit(1);
+
+      const previous = data?.[0];
+      if (previous?.created_at) {
+        const dateFormat = displayDateFormat((previous.import_profiles?.date_format as DateFormat) || "auto");
+        toast.warning(
+          `This file was already imported as "${previous.file_name}" on ${format(parseISO(previous.created_at), dateFormat)}`
+        );
+      }
+    },
+    [bookId]
+  );
+
+  const resetFileInput = useCallback(
+    () => {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    },
+    []
+  );
+
+  // Reading and parsing happen in a worker, so the page stays responsive
+  // and the user can cancel a large file. Resolves to null, after telling
+  // the user why, when there is nothing to import.
+  const readFile = useCallback(
+    async (file: File, encoding: TextEncoding | null): Promise<ParsedImport | null> => {
+      parseTaskRef.current?.cancel();
+      const task = parseFileInBackground(file, encoding, (stage, loaded, total) =>
+        setReadProgress({ fileName: file.name, stage, loaded, total })
+      );
+      parseTaskRef.current = task;
+      setReadProgress({ fileName: file.name, stage: "reading", loaded: 0, total: file.size });
+
+      try {
+        const parsed = await task.promise;
+
+        if (!parsed) {
+          toast.error(unsupportedFormatMessage(file.name));
+          return null;
         }
-        else if (header.includes("expense")) {
-          transaction.expense = parseNumber(value);
+
+        const { source, errors } = parsed;
+        const isEmpty = source.kind === "table"
+          ? source.table.rows.length === 0
+          : source.kind === "workbook"
+            ? source.sheets.every((sheet) => sheet.table.rows.length === 0)
+            : source.transactions.length === 0 && errors.length === 0;
+
+        if (isEmpty) {
+          toast.error("No rows found in file");
+          return null;
         }
-        else if (header.includes("note") || header.includes("description")) {
-          transaction.note = value;
+        return parsed;
+      } catch (error) {
+        if (!isCancelled(error)) toast.error("Failed to read file");
+        return null;
+      } finally {
+        if (parseTaskRef.current === task) {
+          parseTaskRef.current = null;
+          setReadProgress(null);
         }
-        else if (header.includes("paid")) {
-          transaction.paid_from = value;
+      }
+    },
+    []
+  );
+
+  const openFile = useCallback(
+    async (file: File) => {
+      setIsOpening(true);
+      try {
+        const parsed = await readFile(file, null);
+        if (!parsed) {
+          resetFileInput();
+          return;
         }
-      });
 
-      if (transaction.date && transaction.category) {
-        transactions.push(transaction);
+        const fileHash = await hashFile(file);
+        setPendingImport({ file, fileHash, ...parsed });
+        warnIfImportedBefore(fileHash);
+      } catch (error) {
+        toast.error("Failed to read file");
+        resetFileInput();
+      } finally {
+        setIsOpening(false);
       }
-    }
-    
-    return transactions;
+    },
+    [readFile, resetFileInput, warnIfImportedBefore]
+  );
+
+  // Open the next queued file once the previous one is imported or cancelled
+  useEffect(() => {
+    if (isBusy || queuedFiles.length === 0) return;
+    const [next, ...rest] = queuedFiles;
+    setQueuedFiles(rest);
+    openFile(next);
+  }, [isBusy, queuedFiles, openFile]);
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) setQueuedFiles((current) => [...current, ...files]);
+    // Allow choosing the same file again later
+    e.target.value = "";
   };
 
-  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
 
-    if (!file.name.endsWith(".csv")) {
-      toast.error("Please upload a CSV file");
-      return;
-    }
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Ignore moving between the card's own children
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDragging(false);
+  };
 
-    setIsUploading(true);
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) setQueuedFiles((current) => [...current, ...files]);
+  };
 
-    try {
-      const text = await file.text();
-      const parsedTransactions = parseCSV(text);
+  // Reads the pending file again when the detected encoding was wrong
+  const handleEncodingChange = async (encoding: TextEncoding) => {
+    if (!pendingImport) return;
+    const parsed = await readFile(pendingImport.file, encoding);
+    if (parsed) setPendingImport({ ...pendingImport, ...parsed });
+  };
 
-      if (parsedTransactions.length === 0) {
-        toast.error("No valid transactions found in CSV");
-        setIsUploading(false);
-        return;
-      }
+  // Cancelling a file also drops the files queued after it
+  const handleCancelRead = () => {
+    setQueuedFiles([]);
+    parseTaskRef.current?.cancel();
+  };
 
-      // Fetch existing transactions for this book to check for duplicates
-      const { data: existingTransactions, error: fetchError } = await supabase
-        .from("transactions")
-        .select("date, category, subcategory, income, expense, note")
-        .eq("book_id", bookId);
+  const handleWizardCancel = () => {
+    setPendingImport(null);
+    resetFileInput();
+  };
 
-      if (fetchError) throw fetchError;
+  const sendChunk = async (batchId: string, chunk: ImportRow[]) => {
+    // The database skips rows it already has, including ones another
+    // import added since the preview was checked
+    const { data, error } = await supabase.rpc("import_transactions", {
+      _book_id: bookId,
+      _batch_id: batchId,
+      _transactions: toImportPayload(chunk),
+    });
 
-      // Create a Set of existing transaction signatures for fast lookup
-      const existingSignatures = new Set(
-        (existingTransactions || []).map((t) =>
-          `${t.date}|${t.category}|${t.subcategory || ''}|${t.income}|${t.expense}|${t.note || ''}`
-        )
-      );
+    if (error) throw error;
+    return data?.length ?? 0;
+  };
 
-      // Filter out duplicates
-      const newTransactions = parsedTransactions.filter((t) => {
-        const signature = `${t.date}|${t.category}|${t.subcategory || ''}|${t.income}|${t.expense}|${t.note || ''}`;
-        return !existingSignatures.has(signature);
-      });
+  const runImport = async (batchId: string, rows: ImportRow[]) => {
+    const result = await importInChunks(
+      rows,
+      (chunk) => sendChunk(batchId, chunk),
+      (processed, total) => setProgress({ processed, total })
+    );
+    setProgress(null);
+    return result;
+  };
 
-      const duplicateCount = parsedTransactions.length - newTransactions.length;
+  const reportResult = (inserted: number, duplicates: number, failed: number) => {
+    const details = [
+      duplicates > 0 ? `${duplicates} duplicates skipped` : null,
+      failed > 0 ? `${failed} failed` : null,
+    ].filter(Boolean).join(", ");
+    const message = `Successfully uploaded ${inserted} transactions${details ? ` (${details})` : ""}`;
 
-      if (newTransactions.length === 0) {
-        toast.info("All transactions are duplicates. Nothing to import.");
-        setIsUploading(false);
-        return;
+    if (failed > 0) toast.warning(message);
+    else toast.success(message);
+  };
+
+  const importTransactions = async (rows: ImportRow[], summary: ImportSummary) => {
+    if (!pendingImport) return;
+    const { fileHash } = pendingImport;
+    const fileName = pendingImport.file.name;
+    setPendingImport(null);
+    setFailedImport(null);
+    setIsUploading(true);
+
+    try {
+      const { data: batch, error: batchError } = await supabase
+        .from("import_batches")
+        .insert({
+          user_id: userId,
+          book_id: bookId,
+          profile_id: summary.profileId,
+          file_name: fileName,
+          file_hash: fileHash,
+          row_count: summary.rowCount,
+          imported_count: rows.length,
+          skipped_count: summary.skippedCount,
+          error_count: summary.errorCount,
+        })
+        .select()
+        .single();
+
+      if (batchError) throw batchError;
+
+      const { inserted, duplicates, failed } = await runImport(batch.id, rows);
+
+      if (inserted === 0 && failed.length === rows.length) {
+        // Don't leave a batch behind for rows that never made it in
+        await supabase.from("import_batches").delete().eq("id", batch.id);
+        throw new Error(failed[0]?.message || "Failed to upload transactions");
       }
 
-      const transactionsToInsert = newTransactions.map((t) => ({
-        book_id: bookId,
-        user_id: userId,
-        date: t.date,
-        category: t.category || "Uncategorized",
-        subcategory: t.subcategory || null,
-        income: t.income || 0,
-        expense: t.expense || 0,
-        note: t.note || null,
-        paid_from: t.paid_from || null,
-        labels: null,
-      }));
-
-      const { error } = await supabase
-        .from("transactions")
-        .insert(transactionsToInsert);
+      const counts = {
+        imported: inserted,
+        skipped: summary.skippedCount + duplicates,
+        errors: summary.errorCount + failed.length,
+      };
+      await updateBatchCounts(batch.id, counts);
 
-      if (error) throw error;
+      if (failed.length > 0) {
+        setFailedImport({ batchId: batch.id, fileName, rows: failed, counts });
+      }
 
-      const message = duplicateCount > 0
-        ? `Successfully uploaded ${newTransactions.length} transactions (${duplicateCount} duplicates skipped)`
-        : `Successfully uploaded ${newTransactions.length} transactions`;
-      
-      toast.success(message);
+      reportResult(inserted, duplicates, failed.length);
       onUploadComplete();
-      
-      if (fileInputRef.current) {
-        fileInputRef.current.value = "";
-      }
-    } catch (error: any) {
-      toast.error(error.message || "Failed to upload CSV");
+    } catch (error) {
+      toast.error(error instanceof Error && error.message ? error.message : "Failed to upload transactions");
+    } finally {
+      setIsUploading(false);
+      setProgress(null);
+      resetFileInput();
+    }
+  };
+
+  const updateBatchCounts = async (batchId: string, counts: BatchCounts) => {
+    await supabase
+      .from("import_batches")
+      .update({
+        imported_count: counts.imported,
+        skipped_count: counts.skipped,
+        error_count: counts.errors,
+      })
+      .eq("id", batchId);
+  };
+
+  // Sends the rows that failed last time again, into the same batch
+  const handleRetryFailed = async () => {
+    if (!failedImport) return;
+    setIsUploading(true);
+
+    try {
+      const retried = failedImport.rows.map((f) => f.row);
+      const { inserted, duplicates, failed } = await runImport(failedImport.batchId, retried);
+      const counts = {
+        imported: failedImport.counts.imported + inserted,
+        skipped: failedImport.counts.skipped + duplicates,
+        errors: failedImport.counts.errors - retried.length + failed.length,
+      };
+      await updateBatchCounts(failedImport.batchId, counts);
+
+      setFailedImport(failed.length > 0 ? { ...failedImport, rows: failed, counts } : null);
+      reportResult(inserted, duplicates, failed.length);
+      if (inserted > 0) onUploadComplete();
     } finally {
       setIsUploading(false);
+      setProgress(null);
     }
   };
 
   return (
-    <Card className="p-6 border-2 border-dashed border-border hover:border-primary/50 transition-colors">
+    <Card
+      className={`p-6 border-2 border-dashed transition-colors ${
+        isDragging ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+      }`}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       <div className="flex flex-col items-center text-center space-y-4">
         <div className="w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center">
           <FileSpreadsheet className="w-8 h-8 text-primary" />
         </div>
         <div>
-          <h3 className="text-lg font-semibold mb-1">Upload CSV File</h3>
+          <h3 className="text-lg font-semibold mb-1">Import Transactions</h3>
           <p className="text-sm text-muted-foreground max-w-md">
-            Upload your spending data with columns: Date, Category, Subcategory, Income, Expense, Note, Paid from
+            Upload a CSV or Excel file with columns like Date, Category, Subcategory, Income, Expense, Note, Paid from. You can match columns before importing, or upload a bank statement (OFX/QFX, QIF, camt.053 or MT940).
+          </p>
+          <p className="text-sm text-muted-foreground max-w-md mt-1">
+            Drop several files here at once, or paste rows copied from a spreadsheet or your bank's website.
           </p>
         </div>
         <input
           ref={fileInputRef}
           type="file"
-          accept=".csv"
+          accept={ACCEPTED_EXTENSIONS.join(",")}
           onChange={handleFileSelect}
           className="hidden"
-          disabled={isUploading}
+          multiple
         />
-        <Button
-          onClick={() => fileInputRef.current?.click()}
-          disabled={isUploading}
-          size="lg"
-          className="gap-2"
-        >
-          {isUploading ? (
-            <>
-              <Loader2 className="w-4 h-4 animate-spin" />
-              Uploading...
-            </>
-          ) : (
-            <>
-              <Upload className="w-4 h-4" />
-              Choose CSV File
-            </>
-          )}
-        </Button>
+        <div className="flex flex-wrap justify-center gap-2">
+          <Button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isBusy}
+            size="lg"
+            className="gap-2"
+          >
+            {isUploading ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Uploading...
+              </>
+            ) : (
+              <>
+                <Upload className="w-4 h-4" />
+                Choose Files
+              </>
+            )}
+          </Button>
+          <Button variant="outline" size="lg" className="gap-2" onClick={() => setIsHistoryOpen(true)}>
+            <History className="w-4 h-4" />
+            Import History
+          </Button>
+          <DuplicateReview bookId={bookId} userId={userId} currency={currency} onUpdate={onUploadComplete} />
+        </div>
+        {readProgress && (
+          <div className="w-full max-w-md space-y-2">
+            <Progress value={readProgress.total > 0 ? (readProgress.loaded / readProgress.total) * 100 : 0} />
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground truncate">
+                {readProgress.stage === "reading"
+                  ? `Reading "${readProgress.fileName}" (${Math.round(readProgress.loaded / 1024)} of ${Math.round(readProgress.total / 1024)} KB)`
+                  : `Parsing "${readProgress.fileName}"...`}
+              </p>
+              <Button size="sm" variant="ghost" onClick={handleCancelRead}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+        {progress && (
+          <div className="w-full max-w-md space-y-2">
+            <Progress value={progress.total > 0 ? (progress.processed / progress.total) * 100 : 0} />
+            <p className="text-sm text-muted-foreground">
+              Imported {progress.processed} of {progress.total} rows
+            </p>
+          </div>
+        )}
+        {failedImport && !progress && (
+          <Alert variant="destructive" className="text-left max-w-2xl">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>
+              {failedImport.rows.length} row{failedImport.rows.length === 1 ? "" : "s"} of "{failedImport.fileName}" could not be imported
+            </AlertTitle>
+            <AlertDescription className="space-y-2">
+              <div>
+                {failedImport.rows.slice(0, FAILED_ROWS_SHOWN).map(({ row, message }, i) => (
+                  <p key={i}>
+                    {row.line ? `Line ${row.line}: ` : ""}
+                    {row.date} {row.category} {row.note ? `"${row.note}"` : ""}: {message}
+                  </p>
+                ))}
+                {failedImport.rows.length > FAILED_ROWS_SHOWN && (
+                  <p>…and {failedImport.rows.length - FAILED_ROWS_SHOWN} more</p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" className="gap-2" onClick={handleRetryFailed} disabled={isUploading}>
+                  <RotateCcw className="w-4 h-4" />
+                  Retry failed rows
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setFailedImport(null)} disabled={isUploading}>
+                  Dismiss
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
       </div>
+      {pendingImport && (
+        <ImportWizard
+          // Start over for the next file, or when the file is read again in
+          // another encoding
+          key={`${pendingImport.fileHash}:${pendingImport.encoding}`}
+          bookId={bookId}
+          currency={currency}
+          fileName={pendingImport.file.name}
+          source={pendingImport.source}
+          parseErrors={pendingImport.errors}
+          encoding={pendingImport.encoding}
+          isReading={!!readProgress}
+          queuedCount={queuedFiles.length}
+          onEncodingChange={handleEncodingChange}
+          profiles={profiles}
+          onSaveProfile={handleSaveProfile}
+          findDuplicates={findDuplicates}
+          onCancel={handleWizardCancel}
+          onConfirm={importTransactions}
+        />
+      )}
+      <ImportHistory
+        bookId={bookId}
+        open={isHistoryOpen}
+        onOpenChange={setIsHistoryOpen}
+        onRolledBack={onUploadComplete}
+      />
     </Card>
   );
 };
@@ -20,6 +20,7 @@ export type Database = {
           currency: string | null
           id: string
           name: string
+          restored_from: string | null
           updated_at: string | null
           user_id: string
         }
@@ -28,6 +29,7 @@ export type Database = {
           currency?: string | null
           id?: string
           name: string
+          restored_from?: string | null
           updated_at?: string | null
           user_id: string
         }
@@ -36,11 +38,255 @@ export type Database = {
           currency?: string | null
           id?: string
           name?: string
+          restored_from?: string | null
           updated_at?: string | null
           user_id?: string
         }
         Relationships: []
       }
+      duplicate_dismissals: {
+        Row: {
+          book_id: string
+          created_at: string | null
+          id: string
+          transaction_a: string
+          transaction_b: string
+          user_id: string
+        }
+        Insert: {
+          book_id: string
+          created_at?: string | null
+          id?: string
+          transaction_a: string
+          transaction_b: string
+          user_id: string
+        }
+        Update: {
+          book_id?: string
+          created_at?: string | null
+          id?: string
+          transaction_a?: string
+          transaction_b?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "duplicate_dismissals_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "duplicate_dismissals_transaction_a_fkey"
+            columns: ["transaction_a"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "duplicate_dismissals_transaction_b_fkey"
+            columns: ["transaction_b"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exchange_rates: {
+        Row: {
+          base_currency: string
+          created_at: string | null
+          date: string
+          id: string
+          quote_currency: string
+          rate: number
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          base_currency: string
+          created_at?: string | null
+          date: string
+          id?: string
+          quote_currency: string
+          rate: number
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          base_currency?: string
+          created_at?: string | null
+          date?: string
+          id?: string
+          quote_currency?: string
+          rate?: number
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      import_batches: {
+        Row: {
+          book_id: string
+          created_at: string | null
+          error_count: number
+          file_hash: string
+          file_name: string
+          id: string
+          imported_count: number
+          profile_id: string | null
+          rolled_back_at: string | null
+          row_count: number
+          skipped_count: number
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          book_id: string
+          created_at?: string | null
+          error_count?: number
+          file_hash: string
+          file_name: string
+          id?: string
+          imported_count?: number
+          profile_id?: string | null
+          rolled_back_at?: string | null
+          row_count?: number
+          skipped_count?: number
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          book_id?: string
+          created_at?: string | null
+          error_count?: number
+          file_hash?: string
+          file_name?: string
+          id?: string
+          imported_count?: number
+          profile_id?: string | null
+          rolled_back_at?: string | null
+          row_count?: number
+          skipped_count?: number
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_batches_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "import_batches_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "import_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_profiles: {
+        Row: {
+          book_id: string | null
+          column_mapping: Json
+          created_at: string | null
+          date_format: string
+          decimal_separator: string
+          default_category: string | null
+          default_paid_from: string | null
+          header_signature: string
+          id: string
+          name: string
+          sign_convention: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          book_id?: string | null
+          column_mapping?: Json
+          created_at?: string | null
+          date_format?: string
+          decimal_separator?: string
+          default_category?: string | null
+          default_paid_from?: string | null
+          header_signature: string
+          id?: string
+          name: string
+          sign_convention?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          book_id?: string | null
+          column_mapping?: Json
+          created_at?: string | null
+          date_format?: string
+          decimal_separator?: string
+          default_category?: string | null
+          default_paid_from?: string | null
+          header_signature?: string
+          id?: string
+          name?: string
+          sign_convention?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_profiles_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      merged_fingerprints: {
+        Row: {
+          book_id: string
+          created_at: string | null
+          fingerprint: string
+          id: string
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          book_id: string
+          created_at?: string | null
+          fingerprint: string
+          id?: string
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          book_id?: string
+          created_at?: string | null
+          fingerprint?: string
+          id?: string
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "merged_fingerprints_book_id_fkey"
+            columns: ["book_id"]
+            isOneToOne: false
+            referencedRelation: "books"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "merged_fingerprints_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transactions: {
         Row: {
           book_id: string
@@ -48,10 +294,15 @@ export type Database = {
           created_at: string | null
           date: string
           expense: number | null
+          external_id: string | null
+          fingerprint: string | null
           id: string
+          import_batch_id: string | null
           income: number | null
           labels: string[] | null
           note: string | null
+          original_amount: number | null
+          original_currency: string | null
           paid_from: string | null
           subcategory: string | null
           updated_at: string | null
@@ -63,10 +314,15 @@ export type Database = {
           created_at?: string | null
           date: string
           expense?: number | null
+          external_id?: string | null
+          fingerprint?: string | null
           id?: string
+          import_batch_id?: string | null
           income?: number | null
           labels?: string[] | null
           note?: string | null
+          original_amount?: number | null
+          original_currency?: string | null
           paid_from?: string | null
           subcategory?: string | null
           updated_at?: string | null
@@ -78,10 +334,15 @@ export type Database = {
           created_at?: string | null
           date?: string
           expense?: number | null
+          external_id?: string | null
+          fingerprint?: string | null
           id?: string
+          import_batch_id?: string | null
           income?: number | null
           labels?: string[] | null
           note?: string | null
+          original_amount?: number | null
+          original_currency?: string | null
           paid_from?: string | null
           subcategory?: string | null
           updated_at?: string | null
@@ -95,6 +356,13 @@ export type Database = {
             referencedRelation: "books"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_import_batch_id_fkey"
+            columns: ["import_batch_id"]
+            isOneToOne: false
+            referencedRelation: "import_batches"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -102,7 +370,45 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      find_duplicate_transactions: {
+        Args: { _book_id: string; _transactions: Json }
+        Returns: number[]
+      }
+      import_fingerprints: {
+        Args: { _transactions: Json }
+        Returns: {
+          fingerprint: string
+          row_index: number
+        }[]
+      }
+      import_transactions: {
+        Args: { _batch_id: string; _book_id: string; _transactions: Json }
+        Returns: {
+          row_index: number
+          transaction_id: string
+        }[]
+      }
+      merge_transactions: {
+        Args: { _fields: Json; _keep_id: string; _other_id: string }
+        Returns: undefined
+      }
+      normalize_fingerprint_text: {
+        Args: { _value: string }
+        Returns: string
+      }
+      transaction_fingerprint: {
+        Args: {
+          _category: string
+          _date: string
+          _expense: number
+          _external_id: string
+          _income: number
+          _note: string
+          _occurrence?: number
+          _subcategory: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
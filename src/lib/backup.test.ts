@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { Book, Transaction } from "@/pages/Dashboard";
+import { BACKUP_SCHEMA_VERSION, BackupArchive, createBackup, findRestoreTarget, readBackup, restoreRows } from "./backup";
+import { fingerprintKey } from "./import/fingerprint";
+
+const book: Book = {
+  id: "book-1",
+  name: "Household",
+  currency: "EUR",
+  restored_from: null,
+  created_at: "2024-01-01T00:00:00Z",
+  updated_at: "2024-01-01T00:00:00Z",
+};
+
+const transaction = (id: string, overrides: Partial<Transaction> = {}): Transaction => ({
+  id,
+  book_id: book.id,
+  date: "2024-01-31",
+  category: "Food",
+  subcategory: null,
+  income: 0,
+  expense: 3.5,
+  note: "Coffee",
+  paid_from: null,
+  labels: ["Work"],
+  external_id: null,
+  original_currency: null,
+  original_amount: null,
+  import_batch_id: null,
+  fingerprint: null,
+  created_at: `2024-01-31T10:00:0${id.slice(-1)}Z`,
+  updated_at: "2024-01-31T10:00:00Z",
+  ...overrides,
+});
+
+// Books and stored fingerprints, restored into the way BackupRestore does:
+// import_transactions skips rows whose fingerprint the book already has
+const createDatabase = (books: Book[]) => {
+  const fingerprints = new Map<string, Set<string>>();
+  let created = 0;
+
+  const restore = (archive: BackupArchive) => {
+    let inserted = 0;
+    for (const entry of archive.books) {
+      let target = findRestoreTarget(books, entry);
+      if (!target) {
+        target = { ...entry.book, id: `restored-${++created}`, restored_from: entry.book.id };
+        books.push(target);
+      }
+      const stored = fingerprints.get(target.id) ?? new Set<string>();
+      fingerprints.set(target.id, stored);
+      for (const row of restoreRows(entry)) {
+        const fingerprint = `${fingerprintKey(row)}#${row.occurrence}`;
+        if (stored.has(fingerprint)) continue;
+        stored.add(fingerprint);
+        inserted++;
+      }
+    }
+    return inserted;
+  };
+
+  return { books, restore };
+};
+
+const backup = () =>
+  createBackup({ user_id: "user-1", email: null }, [
+    {
+      book,
+      transactions: [transaction("t1"), transaction("t2"), transaction("t3", { note: "Tea" })],
+    },
+  ]);
+
+describe("readBackup", () => {
+  it("reads back what createBackup wrote", async () => {
+    const archive = await backup();
+    const { archive: read, damaged, intact } = await readBackup(JSON.stringify(archive));
+    expect(read).toEqual(archive);
+    expect(damaged.size).toBe(0);
+    expect(intact).toBe(true);
+  });
+
+  it("notices edited books and metadata", async () => {
+    const archive = await backup();
+    archive.books[0].transactions[0].expense = 100;
+    archive.transaction_count = 1;
+    const { damaged, intact } = await readBackup(JSON.stringify(archive));
+    expect([...damaged]).toEqual([book.id]);
+    expect(intact).toBe(false);
+  });
+
+  it("refuses other files and newer versions", async () => {
+    await expect(readBackup("{")).rejects.toThrow("not a SpendSmart backup");
+    const archive = { ...(await backup()), schema_version: BACKUP_SCHEMA_VERSION + 1 };
+    await expect(readBackup(JSON.stringify(archive))).rejects.toThrow("newer version");
+  });
+});
+
+describe("restoreRows", () => {
+  it("numbers identical rows in the order they were created", async () => {
+    const archive = await backup();
+    expect(restoreRows(archive.books[0]).map((row) => [row.note, row.occurrence, row.labels])).toEqual([
+      ["Coffee", 1, ["Work"]],
+      ["Coffee", 2, ["Work"]],
+      ["Tea", 1, ["Work"]],
+    ]);
+  });
+});
+
+describe("restoring", () => {
+  it("adds nothing when restoring into a book that still has everything", async () => {
+    const database = createDatabase([book]);
+    const archive = await backup();
+    expect(database.restore(archive)).toBe(3);
+    expect(database.restore(archive)).toBe(0);
+    expect(database.books).toEqual([book]);
+  });
+
+  it("recreates a deleted book once when the same backup is restored twice", async () => {
+    const database = createDatabase([]);
+    const archive = await backup();
+
+    expect(database.restore(archive)).toBe(3);
+    expect(database.restore(archive)).toBe(0);
+    expect(database.books).toEqual([{ ...book, id: "restored-1", restored_from: book.id }]);
+  });
+});
@@ -0,0 +1,215 @@
+// Account backups: every book with all of its transactions in one JSON file.
+// Each book carries a SHA-256 checksum of its content, and the archive one of
+// its metadata and the book checksums, so a damaged or edited file is noticed
+// before anything is restored. Restoring goes through import_transactions,
+// which skips rows a book already has, and a book that no longer exists is
+// recreated once and found again by its backed-up id, so restoring the same
+// file twice is harmless.
+
+import { Book, Transaction } from "@/pages/Dashboard";
+import { hashFile } from "./import/batches";
+import { ImportRow, numberOccurrences } from "./import/fingerprint";
+import { sortForExport } from "./export/csv";
+
+export const BACKUP_FORMAT = "spendsmart-backup";
+
+// Bumped whenever the archive layout changes. Version 1 is the first layout;
+// readBackup refuses archives made by a newer version of the app.
+export const BACKUP_SCHEMA_VERSION = 1;
+
+export type BackupTransaction = Pick<
+  Transaction,
+  | "id"
+  | "date"
+  | "category"
+  | "subcategory"
+  | "income"
+  | "expense"
+  | "note"
+  | "paid_from"
+  | "labels"
+  | "external_id"
+  | "original_currency"
+  | "original_amount"
+  | "created_at"
+  | "updated_at"
+>;
+
+export interface BackupBook {
+  book: Pick<Book, "id" | "name" | "currency" | "created_at" | "updated_at">;
+  transactions: BackupTransaction[];
+  checksum: string;
+}
+
+export interface BackupAccount {
+  user_id: string;
+  email: string | null;
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  schema_version: number;
+  created_at: string;
+  account: BackupAccount;
+  book_count: number;
+  transaction_count: number;
+  books: BackupBook[];
+  checksum: string;
+}
+
+export interface ReadBackupResult {
+  archive: BackupArchive;
+  // Ids of books whose content doesn't match its checksum
+  damaged: Set<string>;
+  // Whether the archive's own metadata matches its checksum
+  intact: boolean;
+}
+
+// JSON with object keys in code point order, so the checksum doesn't depend
+// on how the file was written
+const canonicalJSON = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJSON).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJSON(item)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+const checksumOf = (value: unknown) => hashFile(new Blob([canonicalJSON(value)]));
+
+const bookChecksum = ({ book, transactions }: Omit<BackupBook, "checksum">) => checksumOf({ book, transactions });
+
+const archiveChecksum = ({ books, checksum: _checksum, ...metadata }: BackupArchive) =>
+  checksumOf({ ...metadata, books: books.map((book) => book.checksum) });
+
+const toBackupTransaction = (t: Transaction): BackupTransaction => ({
+  id: t.id,
+  date: t.date,
+  category: t.category,
+  subcategory: t.subcategory,
+  income: t.income,
+  expense: t.expense,
+  note: t.note,
+  paid_from: t.paid_from,
+  labels: t.labels,
+  external_id: t.external_id,
+  original_currency: t.original_currency,
+  original_amount: t.original_amount,
+  created_at: t.created_at,
+  updated_at: t.updated_at,
+});
+
+export const createBackup = async (
+  account: BackupAccount,
+  books: { book: Book; transactions: Transaction[] }[]
+): Promise<BackupArchive> => {
+  const backupBooks = await Promise.all(
+    books.map(async ({ book, transactions }) => {
+      const content = {
+        book: {
+          id: book.id,
+          name: book.name,
+          currency: book.currency,
+          created_at: book.created_at,
+          updated_at: book.updated_at,
+        },
+        transactions: sortForExport(transactions).map(toBackupTransaction),
+      };
+      return { ...content, checksum: await bookChecksum(content) };
+    })
+  );
+
+  const archive: BackupArchive = {
+    format: BACKUP_FORMAT,
+    schema_version: BACKUP_SCHEMA_VERSION,
+    created_at: new Date().toISOString(),
+    account,
+    book_count: backupBooks.length,
+    transaction_count: backupBooks.reduce((sum, book) => sum + book.transactions.length, 0),
+    books: backupBooks,
+    checksum: "",
+  };
+  return { ...archive, checksum: await archiveChecksum(archive) };
+};
+
+const isBackupBook = (value: unknown): value is BackupBook => {
+  if (!value || typeof value !== "object") return false;
+  const { book, transactions, checksum } = value as BackupBook;
+  return (
+    !!book &&
+    typeof book.id === "string" &&
+    typeof book.name === "string" &&
+    Array.isArray(transactions) &&
+    transactions.every((t) => t && typeof t.date === "string" && typeof t.category === "string") &&
+    typeof checksum === "string"
+  );
+};
+
+// Parses and verifies a backup file. Throws with a message for the user when
+// the file can't be restored at all; damaged books are reported instead so
+// the intact ones can still be restored.
+export const readBackup = async (text: string): Promise<ReadBackupResult> => {
+  let archive: BackupArchive;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not a SpendSmart backup");
+  }
+
+  if (!archive || archive.format !== BACKUP_FORMAT || !Number.isInteger(archive.schema_version)) {
+    throw new Error("This file is not a SpendSmart backup");
+  }
+  if (archive.schema_version > BACKUP_SCHEMA_VERSION) {
+    throw new Error(
+      `This backup was made by a newer version of SpendSmart (schema ${archive.schema_version}); update the app to restore it`
+    );
+  }
+  if (!Array.isArray(archive.books) || !archive.books.every(isBackupBook)) {
+    throw new Error("This backup is incomplete or damaged");
+  }
+
+  const damaged = new Set<string>();
+  for (const book of archive.books) {
+    if ((await bookChecksum(book)) !== book.checksum) damaged.add(book.book.id);
+  }
+
+  return { archive, damaged, intact: (await archiveChecksum(archive)) === archive.checksum };
+};
+
+// The book a backed-up book is restored into: the book itself while it
+// exists, otherwise the copy an earlier restore recreated it as. Null when
+// it has to be recreated.
+export const findRestoreTarget = <T extends Pick<Book, "id" | "restored_from">>(
+  books: T[],
+  entry: BackupBook
+): T | null =>
+  books.find((book) => book.id === entry.book.id) ??
+  books.find((book) => book.restored_from === entry.book.id) ??
+  null;
+
+// A backed-up book as rows for import_transactions. Identical rows are
+// numbered in the order they were created, as the database numbers them, so
+// rows the book still has are recognized and skipped.
+export const restoreRows = (book: BackupBook): ImportRow[] => {
+  const rows = [...book.transactions]
+    .sort((a, b) => (a.created_at < b.created_at ? -1 : a.created_at > b.created_at ? 1 : a.id < b.id ? -1 : 1))
+    .map((t) => ({
+      date: t.date,
+      category: t.category,
+      subcategory: t.subcategory,
+      income: t.income,
+      expense: t.expense,
+      note: t.note,
+      paid_from: t.paid_from,
+      labels: t.labels,
+      external_id: t.external_id,
+      original_currency: t.original_currency,
+      original_amount: t.original_amount,
+      created_at: t.created_at,
+    }));
+  const occurrences = numberOccurrences(rows);
+  return rows.map((row, i) => ({ ...row, occurrence: occurrences[i] }));
+};
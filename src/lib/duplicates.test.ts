@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { Transaction } from "@/pages/Dashboard";
+import { findDuplicateCandidates, mergeTransactions, noteSimilarity, pairKey } from "./duplicates";
+
+const transaction = (id: string, overrides: Partial<Transaction> = {}): Transaction => ({
+  id,
+  book_id: "book-1",
+  date: "2024-01-31",
+  category: "Uncategorized",
+  subcategory: null,
+  income: 0,
+  expense: 42.99,
+  note: null,
+  paid_from: null,
+  labels: null,
+  external_id: null,
+  original_currency: null,
+  original_amount: null,
+  import_batch_id: null,
+  fingerprint: null,
+  created_at: "2024-01-31T10:00:00Z",
+  updated_at: "2024-01-31T10:00:00Z",
+  ...overrides,
+});
+
+describe("noteSimilarity", () => {
+  it("ignores case and punctuation and tolerates rewording", () => {
+    expect(noteSimilarity("AMAZON.DE", "amazon de")).toBe(1);
+    expect(noteSimilarity("Amazon Mktp", "Amazon Marketplace")).toBeGreaterThan(0.5);
+    expect(noteSimilarity("Rent", "Coffee")).toBe(0);
+  });
+});
+
+describe("findDuplicateCandidates", () => {
+  const bank = transaction("bank", { note: "AMAZON MARKETPLACE", paid_from: "Checking" });
+  const card = transaction("card", { date: "2024-02-01", note: "Amazon Marketplace", paid_from: "Checking" });
+
+  it("pairs the same amount a day apart, best matches first", () => {
+    const candidates = findDuplicateCandidates([
+      bank,
+      card,
+      transaction("other", { date: "2024-02-03", note: "Bookshop" }),
+      transaction("later", { date: "2024-02-10", note: "Amazon Marketplace" }),
+      transaction("cheaper", { expense: 42.98, note: "Amazon Marketplace" }),
+    ]);
+    expect(candidates.map((c) => c.key)).toEqual([pairKey("bank", "card")]);
+    expect(candidates[0].reasons).toEqual(["Same amount", "1 day apart", "Same note", "Same paid from"]);
+  });
+
+  it("leaves out dismissed pairs", () => {
+    expect(findDuplicateCandidates([bank, card], new Set([pairKey("card", "bank")]))).toEqual([]);
+  });
+});
+
+describe("mergeTransactions", () => {
+  it("fills in what the kept transaction lacks", () => {
+    const keep = transaction("keep", { note: "Amazon", labels: ["Gifts"] });
+    const other = transaction("other", {
+      category: "Shopping",
+      subcategory: "Books",
+      note: "AMZN Mktp",
+      paid_from: "Card",
+      labels: ["gifts", "Trip"],
+      external_id: "REF-1",
+      original_currency: "USD",
+      original_amount: 45,
+    });
+    expect(mergeTransactions(keep, other)).toEqual({
+      category: "Shopping",
+      subcategory: "Books",
+      note: "Amazon",
+      paid_from: "Card",
+      labels: ["Gifts", "Trip"],
+      external_id: "REF-1",
+      original_currency: "USD",
+      original_amount: 45,
+    });
+  });
+
+  it("keeps the category of the kept transaction once it has one", () => {
+    const keep = transaction("keep", { category: "Food", original_currency: "EUR", original_amount: 40 });
+    const other = transaction("other", { category: "Shopping", subcategory: "Books", original_amount: 45 });
+    expect(mergeTransactions(keep, other)).toMatchObject({
+      category: "Food",
+      subcategory: "Books",
+      labels: null,
+      original_currency: "EUR",
+      original_amount: 40,
+    });
+  });
+});
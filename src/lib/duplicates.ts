@@ -0,0 +1,139 @@
+// Fuzzy duplicate detection within a book. The same purchase imported from a
+// bank file and from a card file has the same amount but may be booked a day
+// apart, with differently worded notes and a different paid_from. Candidate
+// pairs must match on amount and lie within a few days of each other; the
+// score then weighs date proximity, note similarity and paid_from.
+
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { Transaction } from "@/pages/Dashboard";
+import { mergeLabels } from "@/lib/import/labels";
+
+export const DUPLICATE_WINDOW_DAYS = 3;
+
+export const MIN_DUPLICATE_SCORE = 0.6;
+
+export interface DuplicateCandidate {
+  key: string;
+  a: Transaction;
+  b: Transaction;
+  // 0..1, higher is more likely the same transaction
+  score: number;
+  reasons: string[];
+}
+
+export const pairKey = (idA: string, idB: string): string =>
+  idA < idB ? `${idA}:${idB}` : `${idB}:${idA}`;
+
+const normalizeNote = (note: string | null): string =>
+  (note || "").toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+
+const bigrams = (text: string): string[] => {
+  const compact = text.replace(/\s+/g, "");
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) result.push(compact.slice(i, i + 2));
+  return result;
+};
+
+// Dice coefficient over character bigrams, tolerant of reordered or
+// abbreviated words ("AMZN Mktp US" vs "Amazon Marketplace")
+export const noteSimilarity = (a: string | null, b: string | null): number => {
+  const left = normalizeNote(a);
+  const right = normalizeNote(b);
+  if (!left && !right) return 0.5;
+  if (!left || !right) return 0.25;
+  if (left === right) return 1;
+
+  const leftBigrams = bigrams(left);
+  const rightCounts = new Map<string, number>();
+  for (const bigram of bigrams(right)) rightCounts.set(bigram, (rightCounts.get(bigram) ?? 0) + 1);
+
+  let shared = 0;
+  for (const bigram of leftBigrams) {
+    const count = rightCounts.get(bigram) ?? 0;
+    if (count > 0) {
+      shared++;
+      rightCounts.set(bigram, count - 1);
+    }
+  }
+
+  const total = leftBigrams.length + bigrams(right).length;
+  return total === 0 ? 0 : (2 * shared) / total;
+};
+
+const paidFromScore = (a: string | null, b: string | null): number => {
+  if (!a || !b) return 0.5;
+  return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+};
+
+const amountKey = (t: Transaction): string =>
+  `${Math.round((t.income || 0) * 100)}|${Math.round((t.expense || 0) * 100)}`;
+
+export const scorePair = (a: Transaction, b: Transaction): DuplicateCandidate | null => {
+  const days = Math.abs(differenceInCalendarDays(parseISO(a.date), parseISO(b.date)));
+  if (days > DUPLICATE_WINDOW_DAYS) return null;
+
+  const dateScore = 1 - days / (DUPLICATE_WINDOW_DAYS + 1);
+  const noteScore = noteSimilarity(a.note, b.note);
+  const paidScore = paidFromScore(a.paid_from, b.paid_from);
+  const score = 0.35 + 0.25 * dateScore + 0.3 * noteScore + 0.1 * paidScore;
+
+  const reasons = ["Same amount"];
+  reasons.push(days === 0 ? "Same date" : `${days} day${days === 1 ? "" : "s"} apart`);
+  if (noteScore >= 0.5) reasons.push(noteScore === 1 ? "Same note" : "Similar note");
+  if (paidScore === 1) reasons.push("Same paid from");
+
+  return { key: pairKey(a.id, b.id), a, b, score, reasons };
+};
+
+// Pairs are only compared within the same amount, so this stays fast on
+// books with tens of thousands of transactions
+export const findDuplicateCandidates = (
+  transactions: Transaction[],
+  dismissed: Set<string> = new Set(),
+  minScore = MIN_DUPLICATE_SCORE
+): DuplicateCandidate[] => {
+  const groups = new Map<string, Transaction[]>();
+  for (const t of transactions) {
+    if (!t.income && !t.expense) continue;
+    const key = amountKey(t);
+    const group = groups.get(key);
+    if (group) group.push(t);
+    else groups.set(key, [t]);
+  }
+
+  const candidates: DuplicateCandidate[] = [];
+  for (const group of groups.values()) {
+    if (group.length < 2) continue;
+    const sorted = [...group].sort((x, y) => x.date.localeCompare(y.date));
+
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const candidate = scorePair(sorted[i], sorted[j]);
+        // Sorted by date, so every later transaction is out of the window too
+        if (!candidate) break;
+        if (candidate.score >= minScore && !dismissed.has(candidate.key)) candidates.push(candidate);
+      }
+    }
+  }
+
+  return candidates.sort((x, y) => y.score - x.score || y.a.date.localeCompare(x.a.date));
+};
+
+// Fields of `keep` after absorbing `other`: anything `keep` lacks is taken
+// from `other`, and labels are combined. The original currency and amount
+// only make sense together, so they are taken as a pair.
+export const mergeTransactions = (keep: Transaction, other: Transaction) => {
+  const takeCategory = keep.category === "Uncategorized" && other.category !== "Uncategorized";
+  const original = keep.original_currency ? keep : other;
+
+  return {
+    category: takeCategory ? other.category : keep.category,
+    subcategory: takeCategory ? other.subcategory : keep.subcategory || other.subcategory,
+    note: keep.note || other.note,
+    paid_from: keep.paid_from || other.paid_from,
+    labels: mergeLabels(keep.labels, other.labels),
+    external_id: keep.external_id || other.external_id,
+    original_currency: original.original_currency,
+    original_amount: original.original_amount,
+  };
+};
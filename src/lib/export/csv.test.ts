@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { Transaction } from "@/pages/Dashboard";
+import { parseCSV } from "@/lib/import/csv";
+import { guessMapping, mapRows } from "@/lib/import/mapping";
+import { transactionsToCSV } from "./csv";
+
+const transaction = (id: string, overrides: Partial<Transaction> = {}): Transaction => ({
+  id,
+  book_id: "book-1",
+  date: "2024-01-31",
+  category: "Food",
+  subcategory: null,
+  income: 0,
+  expense: 3.5,
+  note: null,
+  paid_from: null,
+  labels: null,
+  external_id: null,
+  original_currency: null,
+  original_amount: null,
+  import_batch_id: null,
+  fingerprint: null,
+  created_at: "2024-01-31T10:00:00Z",
+  updated_at: "2024-01-31T10:00:00Z",
+  ...overrides,
+});
+
+const reimport = (csv: string) => {
+  const table = parseCSV(csv);
+  return mapRows(table, guessMapping(table.headers));
+};
+
+describe("transactionsToCSV", () => {
+  it("writes the oldest transactions first with quoted fields", () => {
+    const csv = transactionsToCSV([
+      transaction("t2", { date: "2024-02-01", note: 'Say "hi", then leave' }),
+      transaction("t1", { income: 1200, expense: 0, labels: ["Work"] }),
+    ]);
+    expect(csv.split("\r\n")).toEqual([
+      "Date,Category,Subcategory,Income,Expense,Note,Paid from,Labels,External ID,Original currency,Original amount",
+      "2024-01-31,Food,,1200.00,,,,Work,,,",
+      '2024-02-01,Food,,,3.50,"Say ""hi"", then leave",,,,,',
+      "",
+    ]);
+  });
+
+  it("reads back as the same transactions", () => {
+    const transactions = [
+      transaction("t1", {
+        subcategory: "Coffee",
+        note: "Flat white, large",
+        paid_from: "Card",
+        labels: ["Trip", "a;b", 'say "hi"', "c#"],
+        external_id: "REF-1",
+        original_currency: "JPY",
+        original_amount: 650,
+      }),
+      transaction("t2", { date: "2024-02-01", income: 12.5, expense: 0, labels: ["#1"] }),
+    ];
+    const { rows, errors } = reimport(transactionsToCSV(transactions));
+
+    expect(errors).toEqual([]);
+    // Empty columns are left out and stored as null
+    expect(
+      rows.map((row) => ({ external_id: null, original_currency: null, original_amount: null, ...row.transaction }))
+    ).toEqual(
+      transactions.map((t) => ({
+        date: t.date,
+        category: t.category,
+        subcategory: t.subcategory,
+        income: t.income,
+        expense: t.expense,
+        note: t.note,
+        paid_from: t.paid_from,
+        labels: t.labels,
+        external_id: t.external_id,
+        original_currency: t.original_currency,
+        original_amount: t.original_amount,
+      }))
+    );
+  });
+});
@@ -0,0 +1,57 @@
+// CSV export in the layout the importer reads back: the headers map to the
+// same fields automatically, dates are ISO and amounts use a dot with two
+// decimals, so exporting a book and importing the file into an empty book
+// gives the same transactions.
+
+import { Transaction } from "@/pages/Dashboard";
+import { formatLabels } from "@/lib/import/labels";
+
+export const CSV_EXPORT_HEADERS = [
+  "Date",
+  "Category",
+  "Subcategory",
+  "Income",
+  "Expense",
+  "Note",
+  "Paid from",
+  "Labels",
+  "External ID",
+  "Original currency",
+  "Original amount",
+];
+
+// Fields with a comma, quote or line break are quoted, and so are fields with
+// leading or trailing spaces so other CSV readers keep them. The importer
+// trims every field either way.
+const quoteField = (value: string): string =>
+  /[",\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const formatCSV = (rows: string[][]): string =>
+  rows.map((row) => row.map(quoteField).join(",")).join("\r\n") + "\r\n";
+
+const formatAmount = (value: number): string => (value ? value.toFixed(2) : "");
+
+// Oldest first; identical rows keep their order so they are numbered the
+// same way when imported again
+export const sortForExport = (transactions: Transaction[]): Transaction[] =>
+  [...transactions].sort(
+    (a, b) => a.date.localeCompare(b.date) || a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id)
+  );
+
+export const transactionsToCSV = (transactions: Transaction[]): string =>
+  formatCSV([
+    CSV_EXPORT_HEADERS,
+    ...sortForExport(transactions).map((t) => [
+      t.date,
+      t.category,
+      t.subcategory || "",
+      formatAmount(t.income),
+      formatAmount(t.expense),
+      t.note || "",
+      t.paid_from || "",
+      formatLabels(t.labels),
+      t.external_id || "",
+      t.original_currency || "",
+      t.original_currency && t.original_amount !== null ? formatAmount(t.original_amount) : "",
+    ]),
+  ]);
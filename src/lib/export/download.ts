@@ -0,0 +1,22 @@
+// Saves generated content as a file through a temporary link
+
+export const downloadFile = (data: BlobPart, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// "Household 2026", "2026-10" and "csv" give "household-2026-2026-10.csv"
+export const exportFileName = (bookName: string, scope: string, extension: string): string => {
+  const slug = (text: string) =>
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, "-")
+      .replace(/^-+|-+$/g, "");
+  return `${[slug(bookName) || "book", slug(scope)].filter(Boolean).join("-")}.${extension}`;
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { Transaction } from "@/pages/Dashboard";
+import { toBeancount, toLedger } from "./journal";
+
+const transaction = (id: string, overrides: Partial<Transaction> = {}): Transaction => ({
+  id,
+  book_id: "book-1",
+  date: "2024-01-31",
+  category: "Food",
+  subcategory: null,
+  income: 0,
+  expense: 3.5,
+  note: null,
+  paid_from: null,
+  labels: null,
+  external_id: null,
+  original_currency: null,
+  original_amount: null,
+  import_batch_id: null,
+  fingerprint: null,
+  created_at: "2024-01-31T10:00:00Z",
+  updated_at: "2024-01-31T10:00:00Z",
+  ...overrides,
+});
+
+const options = { bookName: "Household", currency: "eur" };
+
+const book = [
+  transaction("t2", {
+    date: "2024-02-01",
+    subcategory: "Coffee shop",
+    note: 'Flat white "large"',
+    paid_from: "Visa Credit Card",
+    labels: ["Trip Japan"],
+    external_id: "REF-1",
+  }),
+  transaction("t1", { category: "Salary", income: 2500, expense: 0, paid_from: "Checking" }),
+];
+
+describe("toBeancount", () => {
+  it("writes accounts, postings and tags in a fixed order", () => {
+    expect(toBeancount(book, options)).toBe(
+      [
+        'option "title" "Household"',
+        'option "operating_currency" "EUR"',
+        "",
+        "2024-01-31 open Assets:Checking EUR",
+        "2024-02-01 open Expenses:Food:Coffee-shop EUR",
+        "2024-01-31 open Income:Salary EUR",
+        "2024-02-01 open Liabilities:Visa-Credit-Card EUR",
+        "",
+        '2024-01-31 * "Salary"',
+        "  Income:Salary  -2500.00 EUR",
+        "  Assets:Checking  2500.00 EUR",
+        "",
+        '2024-02-01 * "Flat white \\"large\\"" #Trip-Japan',
+        '  external_id: "REF-1"',
+        "  Expenses:Food:Coffee-shop  3.50 EUR",
+        "  Liabilities:Visa-Credit-Card  -3.50 EUR",
+        "",
+      ].join("\n")
+    );
+  });
+});
+
+describe("toLedger", () => {
+  it("writes tags as comment lines", () => {
+    expect(toLedger(book, options)).toBe(
+      [
+        "; Household",
+        "commodity EUR",
+        "",
+        "account Assets:Checking",
+        "account Expenses:Food:Coffee shop",
+        "account Income:Salary",
+        "account Liabilities:Visa Credit Card",
+        "",
+        "2024-01-31 * Salary",
+        "    Income:Salary  -2500.00 EUR",
+        "    Assets:Checking  2500.00 EUR",
+        "",
+        '2024-02-01 * Flat white "large"',
+        "    ; external_id: REF-1",
+        "    ; Trip-Japan:",
+        "    Expenses:Food:Coffee shop  3.50 EUR",
+        "    Liabilities:Visa Credit Card  -3.50 EUR",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("books credit cards and loans as liabilities, but not debit cards", () => {
+    const accounts = ["Credit card", "Amex", "Car loan", "招商信用卡", "Visa Debit", "Debit card", "Card", "Cash", null].map(
+      (paid_from) => toLedger([transaction("t1", { paid_from })], options).split("\n").at(-2)
+    );
+    expect(accounts).toEqual([
+      "    Liabilities:Credit card  -3.50 EUR",
+      "    Liabilities:Amex  -3.50 EUR",
+      "    Liabilities:Car loan  -3.50 EUR",
+      "    Liabilities:招商信用卡  -3.50 EUR",
+      "    Assets:Visa Debit  -3.50 EUR",
+      "    Assets:Debit card  -3.50 EUR",
+      "    Assets:Card  -3.50 EUR",
+      "    Assets:Cash  -3.50 EUR",
+      "    Assets:Unassigned  -3.50 EUR",
+    ]);
+  });
+});
@@ -0,0 +1,132 @@
+// Plain-text accounting journals (Beancount and Ledger/hledger). Categories
+// become Expenses: or Income: accounts with the subcategory below them,
+// "paid from" becomes an asset account, or a liability for credit cards and
+// loans, and labels become tags. Transactions and account declarations come
+// out in a fixed order, so exporting the same book twice gives the same file.
+
+import { Transaction } from "@/pages/Dashboard";
+import { sortForExport } from "./csv";
+
+export interface JournalOptions {
+  bookName: string;
+  currency: string;
+}
+
+interface Posting {
+  account: string;
+  amount: number;
+}
+
+const UNASSIGNED_ACCOUNT = "Unassigned";
+
+const LIABILITY_PATTERN = /credit ?card|amex|american express|loan|mortgage|信用卡|贷款/i;
+
+// A debit card draws on a bank account, whatever else its name says
+const DEBIT_PATTERN = /debit|借记/i;
+
+const isLiability = (paidFrom: string): boolean => LIABILITY_PATTERN.test(paidFrom) && !DEBIT_PATTERN.test(paidFrom);
+
+// Account name parts as plain words; the format-specific rules are applied
+// by each writer
+const accountParts = (t: Transaction): { asset: string[]; category: string[] } => {
+  const paidFrom = t.paid_from?.trim() || UNASSIGNED_ACCOUNT;
+  const root = isLiability(paidFrom) ? "Liabilities" : "Assets";
+  const category = [t.category, t.subcategory].filter((part): part is string => !!part?.trim());
+  return { asset: [root, paidFrom], category };
+};
+
+const postings = (t: Transaction, account: (parts: string[]) => string): Posting[] => {
+  const { asset, category } = accountParts(t);
+  const result: Posting[] = [];
+  if (t.expense > 0) result.push({ account: account(["Expenses", ...category]), amount: t.expense });
+  if (t.income > 0) result.push({ account: account(["Income", ...category]), amount: -t.income });
+  result.push({ account: account(asset), amount: (t.income || 0) - (t.expense || 0) });
+  return result;
+};
+
+const formatAmount = (amount: number) => amount.toFixed(2);
+
+const commodity = (currency: string) => currency.trim().toUpperCase().replace(/[^A-Z0-9'._-]/g, "") || "USD";
+
+// Beancount account parts start with a capital letter, a digit or a
+// non-ASCII character, and hold only letters, digits and dashes
+const beancountAccountPart = (part: string): string => {
+  const cleaned = part.trim().replace(/[^\p{L}\p{N}]+/gu, "-").replace(/^-+|-+$/g, "");
+  if (!cleaned) return "X";
+  const capitalized = cleaned.charAt(0).toUpperCase() + cleaned.slice(1);
+  return /^[A-Z0-9\u0080-\uffff]/.test(capitalized) ? capitalized : `X-${capitalized}`;
+};
+
+const beancountAccount = (parts: string[]) => parts.map(beancountAccountPart).join(":");
+
+const beancountTag = (label: string) => label.trim().replace(/[^A-Za-z0-9_/.-]+/g, "-").replace(/^-+|-+$/g, "");
+
+const quote = (text: string) => `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\s+/g, " ")}"`;
+
+// Ledger account names may not contain colons within a part, tabs or two
+// spaces in a row, which would end the name
+const ledgerAccount = (parts: string[]) =>
+  parts.map((part) => part.trim().replace(/\s*:\s*/g, "-").replace(/\s+/g, " ") || "X").join(":");
+
+const ledgerText = (text: string) => text.replace(/\s+/g, " ").trim();
+
+// Accounts with the date they are first used, by name
+const firstUses = (transactions: Transaction[], account: (parts: string[]) => string): [string, string][] => {
+  const accounts = new Map<string, string>();
+  for (const t of transactions) {
+    for (const posting of postings(t, account)) {
+      if (!accounts.has(posting.account)) accounts.set(posting.account, t.date);
+    }
+  }
+  // Code point order, so the result doesn't depend on the browser's locale
+  return [...accounts.entries()].sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+};
+
+export const toBeancount = (transactions: Transaction[], { bookName, currency }: JournalOptions): string => {
+  const sorted = sortForExport(transactions);
+  const unit = commodity(currency);
+  const lines = [
+    `option "title" ${quote(bookName)}`,
+    `option "operating_currency" "${unit}"`,
+    "",
+    ...firstUses(sorted, beancountAccount).map(([account, date]) => `${date} open ${account} ${unit}`),
+  ];
+
+  for (const t of sorted) {
+    const tags = (t.labels || []).map(beancountTag).filter(Boolean).map((tag) => ` #${tag}`).join("");
+    lines.push("", `${t.date} * ${quote(t.note || t.category)}${tags}`);
+    if (t.external_id) lines.push(`  external_id: ${quote(t.external_id)}`);
+    for (const posting of postings(t, beancountAccount)) {
+      lines.push(`  ${posting.account}  ${formatAmount(posting.amount)} ${unit}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+};
+
+// Readable by both Ledger and hledger: tags are written as "; tag:" comment
+// lines, which Ledger reads as metadata without a value
+export const toLedger = (transactions: Transaction[], { bookName, currency }: JournalOptions): string => {
+  const sorted = sortForExport(transactions);
+  const unit = commodity(currency);
+  const lines = [
+    `; ${ledgerText(bookName)}`,
+    `commodity ${unit}`,
+    "",
+    ...firstUses(sorted, ledgerAccount).map(([account]) => `account ${account}`),
+  ];
+
+  for (const t of sorted) {
+    lines.push("", `${t.date} * ${ledgerText(t.note || t.category)}`);
+    if (t.external_id) lines.push(`    ; external_id: ${ledgerText(t.external_id)}`);
+    for (const label of t.labels || []) {
+      const tag = ledgerText(label).replace(/[\s:,]+/g, "-");
+      if (tag) lines.push(`    ; ${tag}:`);
+    }
+    for (const posting of postings(t, ledgerAccount)) {
+      lines.push(`    ${posting.account}  ${formatAmount(posting.amount)} ${unit}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+};
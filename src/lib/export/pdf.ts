@@ -0,0 +1,378 @@
+// Printable PDF report for one period of the chart controls: the summary
+// cards, the expense distribution and monthly expense charts drawn as vector
+// shapes, category totals compared with the period before, and every
+// transaction of the period.
+
+import type { jsPDF } from "jspdf";
+import type { Table } from "jspdf-autotable";
+import fontUrl from "@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf?url";
+import { addMonths, format, startOfMonth, subMonths } from "date-fns";
+import { Transaction } from "@/pages/Dashboard";
+import {
+  Period,
+  expensesByCategory,
+  expensesByMonth,
+  previousPeriod,
+  transactionsInPeriod,
+} from "@/lib/summaries";
+import { MoneyFormatOptions, MoneyFormatter, moneyFormatter } from "@/lib/money";
+import { sortForExport } from "./csv";
+
+export interface ReportInput {
+  bookName: string;
+  currency: string;
+  period: Period;
+  // Every transaction of the book; the report picks the periods it needs
+  transactions: Transaction[];
+}
+
+type RGB = [number, number, number];
+
+const PAGE_MARGIN = 15;
+const PIE_SLICES = 8;
+const BAR_MONTHS = 12;
+
+const hsl = (h: number, s: number, l: number): RGB => {
+  const a = (s / 100) * Math.min(l / 100, 1 - l / 100);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l / 100 - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [channel(0), channel(8), channel(4)];
+};
+
+// The --chart-* colors of the light theme
+const CHART_COLORS: RGB[] = [
+  hsl(166, 75, 45),
+  hsl(15, 85, 65),
+  hsl(270, 60, 65),
+  hsl(45, 95, 55),
+  hsl(200, 75, 55),
+  hsl(330, 70, 60),
+];
+const PRIMARY = CHART_COLORS[0];
+const SECONDARY = CHART_COLORS[1];
+const OTHER_COLOR: RGB = [180, 180, 180];
+const TEXT_COLOR: RGB = [30, 30, 30];
+const MUTED_COLOR: RGB = [110, 110, 110];
+
+const PERIOD_NAMES = { weekly: "Weekly", monthly: "Monthly", yearly: "Annual" };
+
+// The standard PDF fonts only cover Western European text, so the report is
+// written in Noto Sans SC, which has Latin letters as well as Chinese ones
+// for book names, categories and notes. It is downloaded with the first
+// report, and its one weight stands in for bold to spare a second download.
+const REPORT_FONT = "NotoSansSC";
+let reportFont: Promise<string> | null = null;
+
+// The font file as a binary string, the form jsPDF's virtual file system takes
+const loadReportFont = (): Promise<string> => {
+  reportFont ??= fetch(fontUrl)
+    .then(async (response) => {
+      if (!response.ok) throw new Error(`Could not load the report font (${response.status})`);
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      let binary = "";
+      for (let i = 0; i < bytes.length; i += 8192) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 8192));
+      }
+      return binary;
+    })
+    .catch((error) => {
+      reportFont = null;
+      throw error;
+    });
+  return reportFont;
+};
+
+const addReportFont = (doc: jsPDF, font: string) => {
+  doc.addFileToVFS(`${REPORT_FONT}.ttf`, font);
+  doc.addFont(`${REPORT_FONT}.ttf`, REPORT_FONT, "normal");
+  doc.addFont(`${REPORT_FONT}.ttf`, REPORT_FONT, "bold");
+};
+
+// Where the table autoTable drew last ends on its last page
+const tableEnd = (doc: jsPDF): number => (doc as jsPDF & { lastAutoTable: Table }).lastAutoTable.finalY ?? 0;
+
+// The report font lacks the narrow spaces some locales group digits with
+const pdfMoney = (currency: string, options?: MoneyFormatOptions): MoneyFormatter => {
+  const money = moneyFormatter(currency, options);
+  return (value) => money(value).replace(/[\u202f\u2009]/g, " ");
+};
+
+const periodLabel = (period: Period) =>
+  `${format(period.start, "MMM d, yyyy")} - ${format(period.end, "MMM d, yyyy")}`;
+
+const drawSummaryCards = (doc: jsPDF, y: number, transactions: Transaction[], money: MoneyFormatter) => {
+  const income = transactions.reduce((sum, t) => sum + (t.income || 0), 0);
+  const expense = transactions.reduce((sum, t) => sum + (t.expense || 0), 0);
+  const net = income - expense;
+  const cards: [string, number, RGB][] = [
+    ["Total Income", income, PRIMARY],
+    ["Total Expenses", expense, SECONDARY],
+    ["Net Balance", net, net >= 0 ? PRIMARY : SECONDARY],
+  ];
+
+  const gap = 6;
+  const width = (doc.internal.pageSize.getWidth() - 2 * PAGE_MARGIN - 2 * gap) / 3;
+  cards.forEach(([label, value, color], i) => {
+    const x = PAGE_MARGIN + i * (width + gap);
+    doc.setFillColor(245, 246, 248);
+    doc.roundedRect(x, y, width, 22, 2, 2, "F");
+    doc.setFontSize(9);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text(label, x + 4, y + 7);
+    doc.setFontSize(14);
+    doc.setFont(REPORT_FONT, "bold");
+    doc.setTextColor(...color);
+    doc.text(money(value), x + 4, y + 16);
+    doc.setFont(REPORT_FONT, "normal");
+  });
+  return y + 22;
+};
+
+// A pie slice as a closed path; the arc is a polyline fine enough to look round
+const drawSlice = (doc: jsPDF, cx: number, cy: number, r: number, startAngle: number, endAngle: number) => {
+  const steps = Math.max(2, Math.ceil(((endAngle - startAngle) * 180) / Math.PI / 2));
+  doc.moveTo(cx, cy);
+  for (let i = 0; i <= steps; i++) {
+    const angle = startAngle + ((endAngle - startAngle) * i) / steps;
+    doc.lineTo(cx + r * Math.cos(angle), cy + r * Math.sin(angle));
+  }
+  doc.close();
+  doc.fill();
+};
+
+const drawPieChart = (doc: jsPDF, y: number, transactions: Transaction[], money: MoneyFormatter) => {
+  doc.setFontSize(12);
+  doc.setTextColor(...TEXT_COLOR);
+  doc.text("Expense Distribution", PAGE_MARGIN, y);
+
+  const categories = expensesByCategory(transactions);
+  const total = categories.reduce((sum, c) => sum + c.value, 0);
+  if (total === 0) {
+    doc.setFontSize(9);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text("No expenses in this period", PAGE_MARGIN, y + 8);
+    return y + 12;
+  }
+
+  // Small categories are combined so the legend stays readable
+  const slices: { name: string; value: number; color: RGB }[] = categories
+    .slice(0, PIE_SLICES)
+    .map((c, i) => ({ ...c, color: CHART_COLORS[i % CHART_COLORS.length] }));
+  const rest = categories.slice(PIE_SLICES).reduce((sum, c) => sum + c.value, 0);
+  if (rest > 0) slices.push({ name: "Other", value: rest, color: OTHER_COLOR });
+
+  const radius = 28;
+  const cx = PAGE_MARGIN + radius + 5;
+  const cy = y + 6 + radius;
+  let angle = -Math.PI / 2;
+  for (const slice of slices) {
+    const sweep = (slice.value / total) * 2 * Math.PI;
+    doc.setFillColor(...slice.color);
+    drawSlice(doc, cx, cy, radius, angle, angle + sweep);
+    angle += sweep;
+  }
+
+  const legendX = cx + radius + 14;
+  const lineHeight = Math.min(7, (2 * radius) / slices.length);
+  let legendY = cy - (slices.length * lineHeight) / 2 + lineHeight / 2;
+  doc.setFontSize(9);
+  for (const slice of slices) {
+    doc.setFillColor(...slice.color);
+    doc.rect(legendX, legendY - 2.5, 3, 3, "F");
+    doc.setTextColor(...TEXT_COLOR);
+    doc.text(slice.name.length > 30 ? `${slice.name.slice(0, 29)}…` : slice.name, legendX + 5, legendY);
+    doc.text(
+      `${money(slice.value)}  (${((slice.value / total) * 100).toFixed(0)}%)`,
+      doc.internal.pageSize.getWidth() - PAGE_MARGIN,
+      legendY,
+      { align: "right" }
+    );
+    legendY += lineHeight;
+  }
+
+  return cy + radius;
+};
+
+const niceMaximum = (value: number): number => {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 2.5, 5, 10].find((s) => s * magnitude >= value) ?? 10;
+  return step * magnitude;
+};
+
+// Expenses of the twelve months up to the end of the period; months inside
+// the period are highlighted
+const drawMonthlyChart = (
+  doc: jsPDF,
+  y: number,
+  period: Period,
+  transactions: Transaction[],
+  axisMoney: MoneyFormatter
+) => {
+  doc.setFontSize(12);
+  doc.setTextColor(...TEXT_COLOR);
+  doc.text("Monthly Expenses", PAGE_MARGIN, y);
+
+  const totals = new Map(expensesByMonth(transactions).map((m) => [m.month, m.total]));
+  const firstMonth = subMonths(startOfMonth(period.end), BAR_MONTHS - 1);
+  const months = Array.from({ length: BAR_MONTHS }, (_, i) => {
+    const month = addMonths(firstMonth, i);
+    return {
+      label: format(month, "MMM yy"),
+      value: totals.get(format(month, "MMM yyyy")) ?? 0,
+      inPeriod: month >= startOfMonth(period.start),
+    };
+  });
+
+  const chartLeft = PAGE_MARGIN + 20;
+  const chartRight = doc.internal.pageSize.getWidth() - PAGE_MARGIN;
+  const chartTop = y + 6;
+  const chartHeight = 50;
+  const chartBottom = chartTop + chartHeight;
+  const maximum = niceMaximum(Math.max(...months.map((m) => m.value)));
+
+  doc.setFontSize(7);
+  doc.setLineWidth(0.1);
+  for (let i = 0; i <= 4; i++) {
+    const tickY = chartBottom - (chartHeight * i) / 4;
+    doc.setDrawColor(225, 225, 225);
+    doc.line(chartLeft, tickY, chartRight, tickY);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text(axisMoney((maximum * i) / 4), chartLeft - 2, tickY + 1, { align: "right" });
+  }
+
+  const slot = (chartRight - chartLeft) / months.length;
+  months.forEach((m, i) => {
+    const x = chartLeft + i * slot;
+    const height = (m.value / maximum) * chartHeight;
+    if (height > 0) {
+      doc.setFillColor(...(m.inPeriod ? PRIMARY : OTHER_COLOR));
+      doc.rect(x + slot * 0.15, chartBottom - height, slot * 0.7, height, "F");
+    }
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text(m.label, x + slot / 2, chartBottom + 4, { align: "center" });
+  });
+
+  return chartBottom + 6;
+};
+
+const percentChange = (current: number, previous: number): string => {
+  if (previous === 0) return current === 0 ? "0%" : "New";
+  const change = ((current - previous) / previous) * 100;
+  return `${change > 0 ? "+" : ""}${change.toFixed(0)}%`;
+};
+
+export const buildReport = async ({ bookName, currency, period, transactions }: ReportInput): Promise<ArrayBuffer> => {
+  const [{ jsPDF }, { autoTable }, font] = await Promise.all([
+    import("jspdf"),
+    import("jspdf-autotable"),
+    loadReportFont(),
+  ]);
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  addReportFont(doc, font);
+  const money = pdfMoney(currency);
+  const axisMoney = pdfMoney(currency, { fractionDigits: 0 });
+  const current = transactionsInPeriod(transactions, period);
+  const previous = transactionsInPeriod(transactions, previousPeriod(period));
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  doc.setFont(REPORT_FONT, "normal");
+  doc.setFontSize(18);
+  doc.setTextColor(...TEXT_COLOR);
+  doc.text(`${bookName}: ${PERIOD_NAMES[period.unit]} Report`, PAGE_MARGIN, 20);
+  doc.setFontSize(10);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text(`${periodLabel(period)}  ·  Generated ${format(new Date(), "MMM d, yyyy")}`, PAGE_MARGIN, 27);
+
+  let y = drawSummaryCards(doc, 33, current, money);
+  y = drawPieChart(doc, y + 12, current, money);
+  y = drawMonthlyChart(doc, y + 12, period, transactions, axisMoney);
+
+  // Category totals against the period before
+  const currentTotals = new Map(expensesByCategory(current).map((c) => [c.name, c.value]));
+  const previousTotals = new Map(expensesByCategory(previous).map((c) => [c.name, c.value]));
+  const categoryNames = [
+    ...currentTotals.keys(),
+    ...[...previousTotals.keys()].filter((name) => !currentTotals.has(name)),
+  ];
+  const sum = (totals: Map<string, number>) => [...totals.values()].reduce((total, v) => total + v, 0);
+  const currentSum = sum(currentTotals);
+  const previousSum = sum(previousTotals);
+
+  if (y + 40 > pageHeight - PAGE_MARGIN) {
+    doc.addPage();
+    y = PAGE_MARGIN;
+  }
+  doc.setFontSize(12);
+  doc.setTextColor(...TEXT_COLOR);
+  doc.text("Expenses by Category", PAGE_MARGIN, y + 8);
+
+  autoTable(doc, {
+    startY: y + 11,
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+    head: [["Category", "This period", "Previous period", "Change", ""]],
+    body: categoryNames.map((name) => {
+      const now = currentTotals.get(name) ?? 0;
+      const before = previousTotals.get(name) ?? 0;
+      return [name, money(now), money(before), money(now - before), percentChange(now, before)];
+    }),
+    foot: [
+      [
+        "Total",
+        money(currentSum),
+        money(previousSum),
+        money(currentSum - previousSum),
+        percentChange(currentSum, previousSum),
+      ],
+    ],
+    styles: { font: REPORT_FONT, fontSize: 8 },
+    headStyles: { fillColor: PRIMARY },
+    footStyles: { fillColor: [245, 246, 248], textColor: TEXT_COLOR },
+    columnStyles: { 1: { halign: "right" }, 2: { halign: "right" }, 3: { halign: "right" }, 4: { halign: "right" } },
+  });
+  y = tableEnd(doc);
+
+  doc.setFontSize(12);
+  doc.setTextColor(...TEXT_COLOR);
+  if (y + 20 > pageHeight - PAGE_MARGIN) {
+    doc.addPage();
+    y = PAGE_MARGIN;
+  }
+  doc.text(`Transactions (${current.length})`, PAGE_MARGIN, y + 10);
+
+  autoTable(doc, {
+    startY: y + 13,
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+    head: [["Date", "Category", "Note", "Paid from", "Income", "Expense"]],
+    body: sortForExport(current).map((t) => [
+      format(new Date(`${t.date}T00:00:00`), "MMM d, yyyy"),
+      t.subcategory ? `${t.category} / ${t.subcategory}` : t.category,
+      t.note || "",
+      t.paid_from || "",
+      t.income > 0 ? money(t.income) : "",
+      t.expense > 0 ? money(t.expense) : "",
+    ]),
+    styles: { font: REPORT_FONT, fontSize: 8, overflow: "linebreak" },
+    headStyles: { fillColor: PRIMARY },
+    columnStyles: {
+      0: { cellWidth: 22 },
+      2: { cellWidth: 55 },
+      4: { halign: "right" },
+      5: { halign: "right" },
+    },
+  });
+
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text(`Page ${page} of ${pageCount}`, doc.internal.pageSize.getWidth() - PAGE_MARGIN, pageHeight - 8, {
+      align: "right",
+    });
+  }
+
+  return doc.output("arraybuffer");
+};
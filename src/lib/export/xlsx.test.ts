@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import * as XLSX from "xlsx";
+import { Transaction } from "@/pages/Dashboard";
+import { buildWorkbook, currencyNumberFormat } from "./xlsx";
+
+const transaction = (id: string, overrides: Partial<Transaction> = {}): Transaction => ({
+  id,
+  book_id: "book-1",
+  date: "2024-01-31",
+  category: "Food",
+  subcategory: null,
+  income: 0,
+  expense: 3.5,
+  note: null,
+  paid_from: null,
+  labels: null,
+  external_id: null,
+  original_currency: null,
+  original_amount: null,
+  import_batch_id: null,
+  fingerprint: null,
+  created_at: "2024-01-31T10:00:00Z",
+  updated_at: "2024-01-31T10:00:00Z",
+  ...overrides,
+});
+
+const rows = (workbook: XLSX.WorkBook, name: string) =>
+  XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, raw: true, defval: null });
+
+describe("currencyNumberFormat", () => {
+  it("uses the currency's symbol and decimals", () => {
+    expect(currencyNumberFormat("USD")).toBe('"$"#,##0.00;-"$"#,##0.00');
+    expect(currencyNumberFormat("JPY")).toBe('"¥"#,##0;-"¥"#,##0');
+    expect(currencyNumberFormat("nope")).toBe("#,##0.00");
+  });
+});
+
+describe("buildWorkbook", () => {
+  it("writes the transactions and the monthly and category totals", async () => {
+    const data = await buildWorkbook(
+      [
+        transaction("t2", {
+          date: "2024-02-01",
+          category: "Rent",
+          expense: 800,
+          labels: ["Home", "a;b"],
+          original_currency: "USD",
+          original_amount: 870,
+        }),
+        transaction("t1", { note: "Coffee", paid_from: "Cash" }),
+      ],
+      "EUR"
+    );
+    const workbook = XLSX.read(data, { type: "array", cellNF: true });
+
+    expect(workbook.SheetNames).toEqual(["Transactions", "By month", "By category"]);
+    expect(rows(workbook, "Transactions").slice(1)).toEqual([
+      [45322, "Food", null, 0, 3.5, "Coffee", "Cash", "", null, null, null],
+      [45323, "Rent", null, 0, 800, null, null, 'Home, "a;b"', null, "USD", 870],
+    ]);
+    expect(workbook.Sheets.Transactions.A2.z).toBe("yyyy-mm-dd");
+    expect(workbook.Sheets.Transactions.E2.z).toBe('"€"#,##0.00;-"€"#,##0.00');
+
+    expect(rows(workbook, "By month")).toEqual([
+      ["Month", "Total", "Rent", "Food"],
+      [45292, 3.5, null, 3.5],
+      [45323, 800, 800, null],
+    ]);
+    expect(rows(workbook, "By category")).toEqual([
+      ["Category", "Expenses", "Share"],
+      ["Rent", 800, 800 / 803.5],
+      ["Food", 3.5, 3.5 / 803.5],
+      ["Total", 803.5, 1],
+    ]);
+  });
+});
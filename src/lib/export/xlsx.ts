@@ -0,0 +1,134 @@
+// Excel workbook export: every transaction with real dates and currency
+// formatted amounts, plus the monthly and per-category expense totals the
+// dashboard charts show.
+
+import type { WorkSheet } from "xlsx";
+import { Transaction } from "@/pages/Dashboard";
+import { expensesByCategory, expensesByMonth } from "@/lib/summaries";
+import { formatLabels } from "@/lib/import/labels";
+import { CSV_EXPORT_HEADERS, sortForExport } from "./csv";
+
+const DATE_FORMAT = "yyyy-mm-dd";
+const MONTH_FORMAT = "mmm yyyy";
+const PERCENT_FORMAT = "0.0%";
+const AMOUNT_FORMAT = "#,##0.00";
+
+// Excel counts days from 1899-12-30
+const toExcelDate = (isoDate: string): number => {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  return (Date.UTC(year, month - 1, day) - Date.UTC(1899, 11, 30)) / 86400000;
+};
+
+// "$"#,##0.00 for USD, "¥"#,##0 for JPY; plain numbers for unknown codes
+export const currencyNumberFormat = (currency: string): string => {
+  try {
+    const formatter = new Intl.NumberFormat("en-US", { style: "currency", currency, currencyDisplay: "narrowSymbol" });
+    const symbol = formatter.formatToParts(0).find((part) => part.type === "currency")?.value ?? currency;
+    const digits = formatter.resolvedOptions().maximumFractionDigits;
+    const number = digits > 0 ? `#,##0.${"0".repeat(digits)}` : "#,##0";
+    return `"${symbol}"${number};-"${symbol}"${number}`;
+  } catch {
+    return "#,##0.00";
+  }
+};
+
+const loadXLSX = () => import("xlsx");
+
+type XLSXModule = Awaited<ReturnType<typeof loadXLSX>>;
+
+// Applies a number format to the given columns of every row below the header
+const formatColumns = (XLSX: XLSXModule, sheet: WorkSheet, columns: number[], numberFormat: string) => {
+  const range = XLSX.utils.decode_range(sheet["!ref"] || "A1");
+  for (let row = 1; row <= range.e.r; row++) {
+    for (const column of columns) {
+      const cell = sheet[XLSX.utils.encode_cell({ r: row, c: column })];
+      if (cell && cell.t === "n") cell.z = numberFormat;
+    }
+  }
+};
+
+const buildSheet = (XLSX: XLSXModule, rows: (string | number | null)[][], widths: number[]): WorkSheet => {
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet["!cols"] = widths.map((wch) => ({ wch }));
+  if (rows.length > 1) sheet["!autofilter"] = { ref: sheet["!ref"] || "A1" };
+  return sheet;
+};
+
+const transactionsSheet = (XLSX: XLSXModule, transactions: Transaction[], currencyFormat: string) => {
+  const sheet = buildSheet(
+    XLSX,
+    [
+      CSV_EXPORT_HEADERS,
+      ...sortForExport(transactions).map((t) => [
+        toExcelDate(t.date),
+        t.category,
+        t.subcategory,
+        t.income || 0,
+        t.expense || 0,
+        t.note,
+        t.paid_from,
+        formatLabels(t.labels),
+        t.external_id,
+        t.original_currency,
+        t.original_currency ? t.original_amount : null,
+      ]),
+    ],
+    [12, 18, 18, 12, 12, 40, 16, 20, 16, 10, 14]
+  );
+  formatColumns(XLSX, sheet, [0], DATE_FORMAT);
+  formatColumns(XLSX, sheet, [3, 4], currencyFormat);
+  // Original amounts are in the currency of the column before, which
+  // differs from row to row
+  formatColumns(XLSX, sheet, [10], AMOUNT_FORMAT);
+  return sheet;
+};
+
+// One row per month, with the total and then one column per category
+const monthlySheet = (XLSX: XLSXModule, transactions: Transaction[], currencyFormat: string) => {
+  const categories = expensesByCategory(transactions).map((c) => c.name);
+  const months = expensesByMonth(transactions);
+  const sheet = buildSheet(
+    XLSX,
+    [
+      ["Month", "Total", ...categories],
+      ...months.map((m) => [
+        toExcelDate(`${m.sortDate.getFullYear()}-${m.sortDate.getMonth() + 1}-1`),
+        m.total,
+        ...categories.map((name) => (m.categories[name] ? Number(m.categories[name].toFixed(2)) : null)),
+      ]),
+    ],
+    [12, 12, ...categories.map(() => 14)]
+  );
+  formatColumns(XLSX, sheet, [0], MONTH_FORMAT);
+  formatColumns(XLSX, sheet, categories.map((_, i) => i + 1).concat(categories.length + 1), currencyFormat);
+  return sheet;
+};
+
+const categorySheet = (XLSX: XLSXModule, transactions: Transaction[], currencyFormat: string) => {
+  const categories = expensesByCategory(transactions);
+  const total = Number(categories.reduce((sum, c) => sum + c.value, 0).toFixed(2));
+  const sheet = buildSheet(
+    XLSX,
+    [
+      ["Category", "Expenses", "Share"],
+      ...categories.map((c) => [c.name, c.value, total > 0 ? c.value / total : 0]),
+      ["Total", total, total > 0 ? 1 : 0],
+    ],
+    [24, 14, 10]
+  );
+  formatColumns(XLSX, sheet, [1], currencyFormat);
+  formatColumns(XLSX, sheet, [2], PERCENT_FORMAT);
+  return sheet;
+};
+
+export const buildWorkbook = async (transactions: Transaction[], currency: string): Promise<ArrayBuffer> => {
+  const XLSX = await loadXLSX();
+  const currencyFormat = currencyNumberFormat(currency);
+  const workbook = XLSX.utils.book_new();
+
+  XLSX.utils.book_append_sheet(workbook, transactionsSheet(XLSX, transactions, currencyFormat), "Transactions");
+  XLSX.utils.book_append_sheet(workbook, monthlySheet(XLSX, transactions, currencyFormat), "By month");
+  XLSX.utils.book_append_sheet(workbook, categorySheet(XLSX, transactions, currencyFormat), "By category");
+
+  return XLSX.write(workbook, { type: "array", bookType: "xlsx" });
+};
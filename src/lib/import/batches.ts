@@ -0,0 +1,29 @@
+export interface ImportBatch {
+  id: string;
+  book_id: string;
+  profile_id: string | null;
+  file_name: string;
+  file_hash: string;
+  row_count: number;
+  imported_count: number;
+  skipped_count: number;
+  error_count: number;
+  rolled_back_at: string | null;
+  created_at: string | null;
+}
+
+// What the import preview decided, recorded alongside the batch
+export interface ImportSummary {
+  profileId: string | null;
+  rowCount: number;
+  skippedCount: number;
+  errorCount: number;
+}
+
+// SHA-256 of the raw file, so re-uploads of the same export can be spotted
+export const hashFile = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
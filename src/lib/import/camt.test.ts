@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { isCamt053, parseCamt053 } from "./camt";
+
+const statement = (entries: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.08">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Acct><Id><IBAN>DE89370400440532013000</IBAN></Id></Acct>
+${entries}
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+const entry = ({
+  amount = "12.50",
+  indicator = "DBIT",
+  status = "<Sts><Cd>BOOK</Cd></Sts>",
+  date = "<BookgDt><Dt>2024-01-31</Dt></BookgDt>",
+  extra = "",
+}) => `      <Ntry>
+        <Amt Ccy="EUR">${amount}</Amt>
+        <CdtDbtInd>${indicator}</CdtDbtInd>
+        ${status}
+        ${date}
+        ${extra}
+      </Ntry>`;
+
+describe("isCamt053", () => {
+  it("recognizes camt.053 documents", () => {
+    expect(isCamt053(statement(""))).toBe(true);
+    expect(isCamt053("<Document><BkToCstmrStmt></BkToCstmrStmt></Document>")).toBe(true);
+    expect(isCamt053("<rss></rss>")).toBe(false);
+  });
+});
+
+describe("parseCamt053", () => {
+  it("reads booked entries with counterparty, remittance and reference", () => {
+    const { transactions, errors } = parseCamt053(
+      statement(
+        entry({
+          extra: `<AcctSvcrRef>REF1</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <RltdPties><Cdtr><Pty><Nm>Coffee Shop</Nm></Pty></Cdtr></RltdPties>
+          <RmtInf><Ustrd>Invoice 42</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>`,
+        })
+      )
+    );
+    expect(errors).toEqual([]);
+    expect(transactions).toEqual([
+      {
+        date: "2024-01-31",
+        category: "Uncategorized",
+        subcategory: null,
+        income: 0,
+        expense: 12.5,
+        note: "Coffee Shop - Invoice 42",
+        paid_from: null,
+        labels: null,
+        external_id: "DE89370400440532013000:REF1",
+      },
+    ]);
+  });
+
+  it("takes the debtor of credits and reads older party layouts", () => {
+    const { transactions } = parseCamt053(
+      statement(
+        entry({
+          indicator: "CRDT",
+          extra: "<NtryDtls><TxDtls><RltdPties><Dbtr><Nm>Employer</Nm></Dbtr></RltdPties></TxDtls></NtryDtls>",
+        })
+      )
+    );
+    expect(transactions).toMatchObject([{ income: 12.5, expense: 0, note: "Employer", external_id: null }]);
+  });
+
+  it("books reversals in the direction of their indicator and marks them in the note", () => {
+    const { transactions } = parseCamt053(
+      statement(entry({ extra: "<RvslInd>true</RvslInd><AddtlNtryInf>Card refund</AddtlNtryInf>" }))
+    );
+    expect(transactions).toMatchObject([{ income: 0, expense: 12.5, note: "Reversal - Card refund" }]);
+  });
+
+  it("reports pending and unreadable entries on their line", () => {
+    const { transactions, errors } = parseCamt053(
+      statement(
+        [
+          entry({ status: "<Sts><Cd>PDNG</Cd></Sts>" }),
+          entry({ date: "<BookgDt><Dt>soon</Dt></BookgDt>" }),
+          entry({ indicator: "" }),
+        ].join("\n")
+      )
+    );
+    expect(transactions).toEqual([]);
+    expect(errors).toEqual([
+      { line: 6, message: "Skipped entry with status PDNG" },
+      { line: 13, message: "Missing or invalid booking date" },
+      { line: 20, message: "Missing amount or credit/debit indicator" },
+    ]);
+  });
+});
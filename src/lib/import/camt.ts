@@ -0,0 +1,84 @@
+// ISO 20022 camt.053 (bank-to-customer statement) parser. Each <Ntry> is one
+// booked entry; the counterparty is the creditor for debits and the debtor
+// for credits, and remittance information becomes the note.
+
+import { ImportRowError, ParsedTransaction } from "./types";
+import { createLineLocator, isValidISODate } from "./normalize";
+import { findAllText, findElements, findText } from "./xml";
+
+export const isCamt053 = (text: string): boolean =>
+  /camt\.053/i.test(text.slice(0, 4096)) || /<(?:[\w-]+:)?BkToCstmrStmt[\s>]/.test(text);
+
+const partyName = (details: string, role: "Dbtr" | "Cdtr"): string | null => {
+  const [related] = findElements(details, "RltdPties");
+  if (!related) return null;
+  // camt.053.001.08+ wraps the party in <Pty>, earlier versions do not
+  return findText(related.body, role, "Pty", "Nm") ?? findText(related.body, role, "Nm");
+};
+
+export const parseCamt053 = (
+  text: string
+): { transactions: ParsedTransaction[]; errors: ImportRowError[] } => {
+  const transactions: ParsedTransaction[] = [];
+  const errors: ImportRowError[] = [];
+  const lineAt = createLineLocator(text);
+
+  for (const statement of findElements(text, "Stmt")) {
+    const iban = findText(statement.body, "Acct", "Id", "IBAN");
+
+    for (const entry of findElements(statement.body, "Ntry")) {
+      const line = lineAt(statement.offset + entry.offset);
+      const body = entry.body;
+
+      const status = findText(body, "Sts", "Cd") ?? findText(body, "Sts");
+      if (status && status.toUpperCase() !== "BOOK") {
+        errors.push({ line, message: `Skipped entry with status ${status}` });
+        continue;
+      }
+
+      const date = (findText(body, "BookgDt", "Dt") ?? findText(body, "BookgDt", "DtTm") ?? "").slice(0, 10);
+      if (!isValidISODate(date)) {
+        errors.push({ line, message: "Missing or invalid booking date" });
+        continue;
+      }
+
+      const amount = parseFloat(findText(body, "Amt") ?? "");
+      const indicator = findText(body, "CdtDbtInd");
+      if (!Number.isFinite(amount) || (indicator !== "CRDT" && indicator !== "DBIT")) {
+        errors.push({ line, message: "Missing amount or credit/debit indicator" });
+        continue;
+      }
+
+      // The indicator is the direction that was booked, reversals included;
+      // a reversal is only marked in the note
+      const isCredit = indicator === "CRDT";
+      const reversal = findText(body, "RvslInd") === "true" ? "Reversal" : null;
+
+      const [details] = findElements(body, "TxDtls");
+      const counterparty = details ? partyName(details.body, isCredit ? "Dbtr" : "Cdtr") : null;
+      const remittance = details ? findAllText(details.body, "Ustrd").join(" ") : "";
+      const additional = findText(body, "AddtlNtryInf");
+      const note = [reversal, counterparty, remittance || additional].filter(Boolean).join(" - ");
+
+      const reference = findText(body, "AcctSvcrRef");
+
+      transactions.push({
+        date,
+        category: "Uncategorized",
+        subcategory: null,
+        income: isCredit ? amount : 0,
+        expense: isCredit ? 0 : amount,
+        note: note || null,
+        paid_from: null,
+        labels: null,
+        external_id: reference ? (iban ? `${iban}:${reference}` : reference) : null,
+      });
+    }
+  }
+
+  if (transactions.length === 0 && errors.length === 0) {
+    errors.push({ line: 1, message: "No <Ntry> entries found" });
+  }
+
+  return { transactions, errors };
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { createCSVTokenizer, detectDelimiter, parseCSV } from "./csv";
+
+describe("detectDelimiter", () => {
+  it("picks the delimiter that splits every line evenly", () => {
+    expect(detectDelimiter("Date;Amount;Note\n2024-01-31;12,50;Coffee, large\n")).toBe(";");
+    expect(detectDelimiter("Date\tAmount\n2024-01-31\t12.50\n")).toBe("\t");
+  });
+
+  it("ignores delimiters inside quoted fields", () => {
+    expect(detectDelimiter('Date|Note\n2024-01-31|"a;b;c;d"\n')).toBe("|");
+  });
+
+  it("falls back to a comma", () => {
+    expect(detectDelimiter("")).toBe(",");
+    expect(detectDelimiter("Date\n2024-01-31\n")).toBe(",");
+  });
+});
+
+describe("parseCSV", () => {
+  it("reads quoted fields with delimiters, doubled quotes and line breaks", () => {
+    const { headers, rows, errors } = parseCSV('Date,Note\r\n2024-01-31,"Say ""hi"", twice\r\nand again"\r\n');
+    expect(headers).toEqual(["Date", "Note"]);
+    expect(rows).toEqual([{ fields: ["2024-01-31", 'Say "hi", twice\r\nand again'], line: 2 }]);
+    expect(errors).toEqual([]);
+  });
+
+  it("numbers records by the line they start on", () => {
+    const { rows } = parseCSV('A,B\n1,"x\ny"\n\n2,z\n');
+    expect(rows.map((row) => row.line)).toEqual([2, 5]);
+  });
+
+  it("handles CR line endings and a leading BOM", () => {
+    const { headers, rows } = parseCSV("\uFEFFA,B\r1,2\r3,4");
+    expect(headers).toEqual(["A", "B"]);
+    expect(rows.map((row) => row.fields)).toEqual([
+      ["1", "2"],
+      ["3", "4"],
+    ]);
+  });
+
+  it("tolerates whitespace around quoted fields", () => {
+    const { rows, errors } = parseCSV('A,B\n1, "two" \n');
+    expect(rows[0].fields).toEqual(["1", "two"]);
+    expect(errors).toEqual([]);
+  });
+
+  it("reports rows with the wrong number of fields", () => {
+    const { errors } = parseCSV("A,B\n1\n2,3\n");
+    expect(errors).toEqual([{ line: 2, message: "Expected 2 fields but found 1" }]);
+  });
+
+  it("reports stray and unterminated quotes", () => {
+    expect(parseCSV('A,B\n1,x"y\n').errors).toEqual([
+      { line: 2, message: "Unexpected quote inside an unquoted field" },
+    ]);
+    expect(parseCSV('A,B\n1,"open\n').errors).toEqual([{ line: 2, message: "Unterminated quoted field" }]);
+  });
+});
+
+describe("createCSVTokenizer", () => {
+  it("gives the same records however the input is split into chunks", () => {
+    const text = 'a,"b\r\nc"\r\n"d""e",f\r\n';
+    const tokenizer = createCSVTokenizer(",");
+    const records = [...text].flatMap((char) => tokenizer.push(char));
+    records.push(...tokenizer.end());
+
+    expect(records).toEqual([
+      { fields: ["a", "b\r\nc"], line: 1 },
+      { fields: ['d"e', "f"], line: 3 },
+    ]);
+    expect(tokenizer.errors).toEqual([]);
+  });
+});
@@ -0,0 +1,235 @@
+// RFC 4180 CSV tokenizer. Handles quoted fields spanning multiple lines,
+// doubled-quote escapes, CRLF / CR / LF line endings and a leading BOM.
+// Input can be pushed in chunks, so large files never have to be split
+// into lines up front.
+
+export type CSVDelimiter = "," | ";" | "\t" | "|";
+
+export const CSV_DELIMITERS: CSVDelimiter[] = [",", ";", "\t", "|"];
+
+export interface CSVRecord {
+  fields: string[];
+  // 1-based line number where the record starts in the source file
+  line: number;
+}
+
+export interface CSVParseError {
+  line: number;
+  message: string;
+}
+
+export interface CSVParseResult {
+  headers: string[];
+  rows: CSVRecord[];
+  delimiter: CSVDelimiter;
+  errors: CSVParseError[];
+}
+
+type TokenizerState = "fieldStart" | "unquoted" | "quoted" | "quoteInQuoted";
+
+export const stripBOM = (text: string): string =>
+  text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+// Removes quoted sections so delimiter counting ignores delimiters inside them
+const stripQuoted = (line: string): string => line.replace(/"(?:[^"]|"")*"/g, "");
+
+export const detectDelimiter = (sample: string): CSVDelimiter => {
+  const lines = stripBOM(sample)
+    .split(/\r\n|\r|\n/)
+    .map(stripQuoted)
+    .filter((line) => line.trim().length > 0)
+    .slice(0, 10);
+
+  if (lines.length === 0) return ",";
+
+  let best: CSVDelimiter = ",";
+  let bestScore = 0;
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = lines.map((line) => line.split(delimiter).length - 1);
+    const headerCount = counts[0];
+    if (headerCount === 0) continue;
+
+    // Prefer delimiters that split every line into the same number of fields
+    const consistent = counts.filter((count) => count === headerCount).length;
+    const score = headerCount * (consistent / counts.length);
+
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+};
+
+export const createCSVTokenizer = (delimiter: CSVDelimiter) => {
+  const errors: CSVParseError[] = [];
+  let state: TokenizerState = "fieldStart";
+  let field = "";
+  let fields: string[] = [];
+  let line = 1;
+  let recordLine = 1;
+  let skipNextLF = false;
+  let quotedCR = false;
+  let sawBOM = false;
+  let records: CSVRecord[] = [];
+
+  const endField = () => {
+    fields.push(field);
+    field = "";
+  };
+
+  const endRecord = () => {
+    endField();
+    // Blank lines produce a single empty unquoted field and are skipped
+    if (!(fields.length === 1 && fields[0] === "" && state === "fieldStart")) {
+      records.push({ fields, line: recordLine });
+    }
+    fields = [];
+    state = "fieldStart";
+  };
+
+  const handleLineBreak = (char: string) => {
+    endRecord();
+    line++;
+    recordLine = line;
+    skipNextLF = char === "\r";
+  };
+
+  const push = (chunk: string): CSVRecord[] => {
+    let start = 0;
+    if (!sawBOM && chunk.length > 0) {
+      sawBOM = true;
+      if (chunk.charCodeAt(0) === 0xfeff) start = 1;
+    }
+
+    for (let i = start; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (skipNextLF) {
+        skipNextLF = false;
+        if (char === "\n") continue;
+      }
+
+      switch (state) {
+        case "fieldStart":
+          if (char === '"') {
+            state = "quoted";
+          } else if (char === delimiter) {
+            endField();
+          } else if (char === "\r" || char === "\n") {
+            handleLineBreak(char);
+          } else {
+            field += char;
+            state = "unquoted";
+          }
+          break;
+
+        case "unquoted":
+          if (char === delimiter) {
+            endField();
+            state = "fieldStart";
+          } else if (char === "\r" || char === "\n") {
+            handleLineBreak(char);
+          } else if (char === '"') {
+            if (field.trim() === "") {
+              // Tolerate whitespace before an opening quote: `a, "b"`
+              field = "";
+              state = "quoted";
+            } else {
+              errors.push({ line, message: "Unexpected quote inside an unquoted field" });
+              field += char;
+            }
+          } else {
+            field += char;
+          }
+          break;
+
+        case "quoted":
+          if (char === '"') {
+            quotedCR = false;
+            state = "quoteInQuoted";
+          } else {
+            // Count line breaks inside quoted fields so error lines stay accurate
+            if (char === "\r" || (char === "\n" && !quotedCR)) line++;
+            quotedCR = char === "\r";
+            field += char;
+          }
+          break;
+
+        case "quoteInQuoted":
+          if (char === '"') {
+            field += '"';
+            state = "quoted";
+          } else if (char === delimiter) {
+            endField();
+            state = "fieldStart";
+          } else if (char === "\r" || char === "\n") {
+            state = "unquoted";
+            handleLineBreak(char);
+          } else if (char === " " || char === "\t") {
+            // Whitespace between a closing quote and the delimiter is ignored
+          } else {
+            errors.push({ line, message: "Unexpected character after a closing quote" });
+            field += char;
+            state = "unquoted";
+          }
+          break;
+      }
+    }
+
+    const completed = records;
+    records = [];
+    return completed;
+  };
+
+  const end = (): CSVRecord[] => {
+    if (state === "quoted") {
+      errors.push({ line: recordLine, message: "Unterminated quoted field" });
+    }
+    if (state !== "fieldStart" || fields.length > 0 || field !== "") {
+      if (state === "quoted" || state === "quoteInQuoted") state = "unquoted";
+      endRecord();
+    }
+    const completed = records;
+    records = [];
+    return completed;
+  };
+
+  return { push, end, errors };
+};
+
+export function* readCSVRecords(
+  chunks: Iterable<string>,
+  delimiter: CSVDelimiter,
+  errors: CSVParseError[] = []
+): Generator<CSVRecord> {
+  const tokenizer = createCSVTokenizer(delimiter);
+  for (const chunk of chunks) {
+    yield* tokenizer.push(chunk);
+  }
+  yield* tokenizer.end();
+  errors.push(...tokenizer.errors);
+}
+
+export const parseCSV = (text: string, delimiter?: CSVDelimiter): CSVParseResult => {
+  const resolvedDelimiter = delimiter ?? detectDelimiter(text.slice(0, 64 * 1024));
+  const errors: CSVParseError[] = [];
+  const records = [...readCSVRecords([text], resolvedDelimiter, errors)];
+  const [headerRecord, ...rows] = records;
+  const headers = headerRecord ? headerRecord.fields.map((h) => h.trim()) : [];
+
+  rows.forEach((record) => {
+    if (record.fields.length !== headers.length) {
+      errors.push({
+        line: record.line,
+        message: `Expected ${headers.length} fields but found ${record.fields.length}`,
+      });
+    }
+  });
+
+  errors.sort((a, b) => a.line - b.line);
+
+  return { headers, rows, delimiter: resolvedDelimiter, errors };
+};
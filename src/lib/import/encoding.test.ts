@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { detectEncoding } from "./encoding";
+
+const hex = (value: string) => Uint8Array.from(value.split(" "), (byte) => parseInt(byte, 16));
+
+// Latin-1 characters have the same code in Windows-1252
+const windows1252 = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+describe("detectEncoding", () => {
+  it("follows a byte order mark", () => {
+    expect(detectEncoding(hex("ef bb bf 41"))).toBe("utf-8");
+    expect(detectEncoding(hex("ff fe 41 00"))).toBe("utf-16le");
+    expect(detectEncoding(hex("fe ff 00 41"))).toBe("utf-16be");
+  });
+
+  it("recognizes UTF-16 without a byte order mark by its zero bytes", () => {
+    expect(detectEncoding(hex("44 00 61 00 74 00 65 00"))).toBe("utf-16le");
+    expect(detectEncoding(hex("00 44 00 61 00 74 00 65"))).toBe("utf-16be");
+  });
+
+  it("prefers UTF-8 when it decodes", () => {
+    expect(detectEncoding(new TextEncoder().encode("Datum;Empfänger\n01.02.2024;Bäckerei Müller"))).toBe("utf-8");
+    expect(detectEncoding(new TextEncoder().encode("日期,分类\n2024-01-31,餐饮"))).toBe("utf-8");
+  });
+
+  it("reads a Chinese bank export as GBK", () => {
+    // 日期,分类,金额 / 2024-01-31,餐饮,35.00 / 2024-02-01,ATM取款,200.00
+    const gbk = hex(
+      "c8 d5 c6 da 2c b7 d6 c0 e0 2c bd f0 b6 ee 0a 32 30 32 34 2d 30 31 2d 33 31 2c b2 cd d2 fb 2c 33 35 2e 30 30 0a " +
+        "32 30 32 34 2d 30 32 2d 30 31 2c 41 54 4d c8 a1 bf ee 2c 32 30 30 2e 30 30 0a"
+    );
+    expect(detectEncoding(gbk)).toBe("gbk");
+  });
+
+  it("reads German Windows-1252 text as Windows-1252, even where it is valid GBK", () => {
+    const german = windows1252("Datum;Empfänger;Betrag\r\n01.02.2024;Bäckerei Müller;-3,50\r\n02.02.2024;Größe;-12,00\r\n");
+    expect(detectEncoding(german)).toBe("windows-1252");
+    expect(detectEncoding(windows1252("Straße"))).toBe("windows-1252");
+  });
+});
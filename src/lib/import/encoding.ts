@@ -0,0 +1,75 @@
+// Text encodings of imported files. Most exports are UTF-8, but Chinese bank
+// exports are usually GBK and older software writes UTF-16 or Windows-1252.
+
+export type TextEncoding = "utf-8" | "utf-16le" | "utf-16be" | "gbk" | "windows-1252";
+
+export const TEXT_ENCODINGS: { value: TextEncoding; label: string }[] = [
+  { value: "utf-8", label: "UTF-8" },
+  { value: "utf-16le", label: "UTF-16 LE" },
+  { value: "utf-16be", label: "UTF-16 BE" },
+  { value: "gbk", label: "GBK (Chinese)" },
+  { value: "windows-1252", label: "Windows-1252 (Western)" },
+];
+
+const canDecode = (bytes: Uint8Array, encoding: TextEncoding): boolean => {
+  try {
+    // Streaming, so a character cut off at the end of the sample is not an error
+    new TextDecoder(encoding, { fatal: true }).decode(bytes, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isAsciiLetter = (byte: number | undefined): boolean =>
+  byte !== undefined && ((byte >= 0x41 && byte <= 0x5a) || (byte >= 0x61 && byte <= 0x7a));
+
+// Weighs how Chinese and how Western the bytes above ASCII look. Everyday
+// hanzi and Chinese punctuation are GBK pairs with both bytes from 0xA1 up,
+// while accented Windows-1252 letters sit inside words, next to ASCII
+// letters. A German "öß" is a valid GBK pair too, so both can score.
+const scoreHighBytes = (bytes: Uint8Array): { chinese: number; western: number } => {
+  // Single-byte, so character i is byte i
+  const text = new TextDecoder("windows-1252").decode(bytes);
+  let chinese = 0;
+  let western = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] < 0x80) continue;
+    if (/\p{L}/u.test(text[i]) && (isAsciiLetter(bytes[i - 1]) || isAsciiLetter(bytes[i + 1]))) western++;
+  }
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] < 0x81) continue;
+    const trail = bytes[i + 1];
+    if (bytes[i] >= 0xa1 && bytes[i] <= 0xf7 && trail >= 0xa1 && trail <= 0xfe) chinese += 2;
+    // The trail byte of a pair may be ASCII, so it is skipped either way
+    i++;
+  }
+  return { chinese, western };
+};
+
+// Guesses the encoding from the first bytes of a file: a byte order mark if
+// there is one, then the zero bytes of UTF-16 text, then UTF-8 if it decodes
+// without errors. Otherwise GBK is chosen only when the text reads more like
+// Chinese than like accented Western words; Windows-1252 decodes anything,
+// so it is the fallback.
+export const detectEncoding = (bytes: Uint8Array): TextEncoding => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8";
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] !== 0) continue;
+    if (i % 2 === 0) evenZeros++;
+    else oddZeros++;
+  }
+  // ASCII characters in UTF-16 have a zero high byte
+  if (oddZeros > bytes.length / 4 && evenZeros < oddZeros / 4) return "utf-16le";
+  if (evenZeros > bytes.length / 4 && oddZeros < evenZeros / 4) return "utf-16be";
+
+  if (canDecode(bytes, "utf-8")) return "utf-8";
+  const { chinese, western } = scoreHighBytes(bytes);
+  if (chinese > western && canDecode(bytes, "gbk")) return "gbk";
+  return "windows-1252";
+};
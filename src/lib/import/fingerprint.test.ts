@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { fingerprintKey, numberOccurrences, toImportPayload } from "./fingerprint";
+import { ParsedTransaction } from "./types";
+
+const coffee: ParsedTransaction = {
+  date: "2024-01-31",
+  category: "Food",
+  subcategory: "Coffee",
+  income: 0,
+  expense: 3.5,
+  note: "Corner  Cafe",
+  paid_from: "Card",
+  labels: null,
+};
+
+describe("fingerprintKey", () => {
+  it("normalizes text the way the database does", () => {
+    expect(fingerprintKey({ ...coffee, category: " FOOD ", note: "corner cafe", paid_from: "Cash" })).toBe(
+      fingerprintKey(coffee)
+    );
+    expect(fingerprintKey(coffee)).toBe("2024-01-31|food|coffee|0.00|3.50|corner cafe");
+  });
+
+  it("tells apart rows that differ in amount, date or note", () => {
+    expect(fingerprintKey({ ...coffee, expense: 3.51 })).not.toBe(fingerprintKey(coffee));
+    expect(fingerprintKey({ ...coffee, date: "2024-02-01" })).not.toBe(fingerprintKey(coffee));
+    expect(fingerprintKey({ ...coffee, note: "Other cafe" })).not.toBe(fingerprintKey(coffee));
+  });
+
+  it("uses the bank id when there is one", () => {
+    expect(fingerprintKey({ ...coffee, external_id: "ACC:1" })).toBe("ext:ACC:1");
+  });
+});
+
+describe("numberOccurrences", () => {
+  it("numbers identical rows in order", () => {
+    const tea = { ...coffee, note: "Tea" };
+    expect(numberOccurrences([coffee, tea, { ...coffee, note: "corner cafe" }, coffee, tea])).toEqual([
+      1, 1, 2, 3, 2,
+    ]);
+  });
+});
+
+describe("toImportPayload", () => {
+  it("fills defaults and drops empty values", () => {
+    expect(
+      toImportPayload([
+        { ...coffee, category: "", subcategory: "", note: "", labels: [], occurrence: 2, line: 7 },
+      ])
+    ).toEqual([
+      {
+        date: "2024-01-31",
+        category: "Uncategorized",
+        subcategory: null,
+        income: 0,
+        expense: 3.5,
+        note: null,
+        paid_from: "Card",
+        labels: null,
+        external_id: null,
+        original_currency: null,
+        original_amount: null,
+        occurrence: 2,
+      },
+    ]);
+  });
+
+  it("keeps the creation time of restored rows", () => {
+    const [row] = toImportPayload([{ ...coffee, occurrence: 1, created_at: "2024-01-31T10:00:00Z" }]) as {
+      created_at?: string;
+    }[];
+    expect(row.created_at).toBe("2024-01-31T10:00:00Z");
+  });
+});
@@ -0,0 +1,59 @@
+// Duplicate detection happens in the database (see transaction_fingerprint),
+// which needs to know which identical rows of a file are distinct: the n-th
+// identical row gets occurrence n. Rows are compared here with the same
+// normalization the database applies before hashing.
+
+import { Json } from "@/integrations/supabase/types";
+import { ParsedTransaction } from "./types";
+
+export type ImportRow = ParsedTransaction & {
+  occurrence: number;
+  // Source line for error reports; not sent to the database
+  line?: number | null;
+  // Original creation time when restoring a backup
+  created_at?: string;
+};
+
+const normalizeText = (value: string | null): string =>
+  (value || "").trim().replace(/\s+/g, " ").toLowerCase();
+
+export const fingerprintKey = (t: ParsedTransaction): string =>
+  t.external_id
+    ? `ext:${t.external_id}`
+    : [
+        t.date,
+        normalizeText(t.category),
+        normalizeText(t.subcategory),
+        (t.income || 0).toFixed(2),
+        (t.expense || 0).toFixed(2),
+        normalizeText(t.note),
+      ].join("|");
+
+export const numberOccurrences = (transactions: ParsedTransaction[]): number[] => {
+  const counts = new Map<string, number>();
+  return transactions.map((t) => {
+    const key = fingerprintKey(t);
+    const occurrence = (counts.get(key) ?? 0) + 1;
+    counts.set(key, occurrence);
+    return occurrence;
+  });
+};
+
+// Shape expected by the import_transactions and find_duplicate_transactions
+// database functions
+export const toImportPayload = (rows: ImportRow[]): Json =>
+  rows.map((t) => ({
+    date: t.date,
+    category: t.category || "Uncategorized",
+    subcategory: t.subcategory || null,
+    income: t.income || 0,
+    expense: t.expense || 0,
+    note: t.note || null,
+    paid_from: t.paid_from || null,
+    labels: t.labels && t.labels.length > 0 ? t.labels : null,
+    external_id: t.external_id || null,
+    original_currency: t.original_currency || null,
+    original_amount: t.original_amount ?? null,
+    occurrence: t.occurrence,
+    ...(t.created_at ? { created_at: t.created_at } : {}),
+  }));
@@ -0,0 +1,123 @@
+import { isCamt053, parseCamt053 } from "./camt";
+import { parseCSV } from "./csv";
+import { TextEncoding, detectEncoding } from "./encoding";
+import { isMT940, parseMT940 } from "./mt940";
+import { isOFX, parseOFX } from "./ofx";
+import { isQIF, parseQIF } from "./qif";
+import { readWorkbook } from "./spreadsheet";
+import { ParsedImport } from "./types";
+
+export type ImportFormat = "csv" | "ofx" | "qif" | "camt053" | "mt940";
+
+const SPREADSHEET_EXTENSIONS = [".xlsx", ".xls"];
+
+export const ACCEPTED_EXTENSIONS = [
+  ".csv",
+  ...SPREADSHEET_EXTENSIONS,
+  ".ofx",
+  ".qfx",
+  ".qif",
+  ".xml",
+  ".sta",
+  ".mt940",
+  ".940",
+  ".txt",
+];
+
+const extensionOf = (fileName: string): string => {
+  const dot = fileName.lastIndexOf(".");
+  return dot === -1 ? "" : fileName.slice(dot).toLowerCase();
+};
+
+export const detectFormat = (fileName: string, text: string): ImportFormat | null => {
+  const extension = extensionOf(fileName);
+  if (extension === ".ofx" || extension === ".qfx" || isOFX(text)) return "ofx";
+  if (extension === ".qif" || isQIF(text)) return "qif";
+  if (isCamt053(text)) return "camt053";
+  if (extension === ".sta" || extension === ".mt940" || extension === ".940" || isMT940(text)) return "mt940";
+  // Plain text exports that are not MT940 are usually delimited tables
+  if (extension === ".csv" || extension === ".txt") return "csv";
+  return null;
+};
+
+// Why a file detectFormat found nothing in was refused. XML is only read as
+// camt.053, so other XML files get their own message.
+export const unsupportedFormatMessage = (fileName: string): string =>
+  extensionOf(fileName) === ".xml"
+    ? "This XML file is not a camt.053 bank statement, the only XML format that can be imported"
+    : `Unsupported file type. Please upload one of: ${ACCEPTED_EXTENSIONS.join(", ")}`;
+
+export const parseImportText = (format: ImportFormat, text: string): ParsedImport => {
+  switch (format) {
+    case "csv": {
+      const { headers, rows, errors } = parseCSV(text);
+      return { source: { kind: "table", table: { headers, rows } }, errors };
+    }
+    case "ofx": {
+      const { transactions, errors } = parseOFX(text);
+      return { source: { kind: "statement", format: "OFX", transactions }, errors };
+    }
+    case "qif": {
+      const { transactions, errors } = parseQIF(text);
+      return { source: { kind: "statement", format: "QIF", transactions }, errors };
+    }
+    case "camt053": {
+      const { transactions, errors } = parseCamt053(text);
+      return { source: { kind: "statement", format: "camt.053", transactions }, errors };
+    }
+    case "mt940": {
+      const { transactions, errors } = parseMT940(text);
+      return { source: { kind: "statement", format: "MT940", transactions }, errors };
+    }
+  }
+};
+
+export type ParseStage = "reading" | "parsing";
+
+export type ParseProgress = (stage: ParseStage, loaded: number, total: number) => void;
+
+const READ_CHUNK_SIZE = 1024 * 1024;
+
+// Reads the file piece by piece so progress can be reported. Multi-byte
+// characters split across pieces are handled by the streaming decoder.
+// Without an encoding it is detected from the first piece.
+const readFileText = async (
+  file: Blob,
+  encoding: TextEncoding | null,
+  onProgress?: ParseProgress
+): Promise<{ text: string; encoding: TextEncoding }> => {
+  let decoder: TextDecoder | null = encoding ? new TextDecoder(encoding) : null;
+  const parts: string[] = [];
+
+  for (let offset = 0; offset < file.size; offset += READ_CHUNK_SIZE) {
+    const bytes = new Uint8Array(await file.slice(offset, offset + READ_CHUNK_SIZE).arrayBuffer());
+    if (!decoder) {
+      encoding = detectEncoding(bytes);
+      decoder = new TextDecoder(encoding);
+    }
+    parts.push(decoder.decode(bytes, { stream: true }));
+    onProgress?.("reading", Math.min(offset + READ_CHUNK_SIZE, file.size), file.size);
+  }
+  if (decoder) parts.push(decoder.decode());
+
+  return { text: parts.join(""), encoding: encoding ?? "utf-8" };
+};
+
+// Returns null when the file is not in a supported format
+export const parseImportFile = async (
+  file: File,
+  encoding: TextEncoding | null = null,
+  onProgress?: ParseProgress
+): Promise<ParsedImport | null> => {
+  if (SPREADSHEET_EXTENSIONS.includes(extensionOf(file.name))) {
+    const buffer = await file.arrayBuffer();
+    onProgress?.("parsing", file.size, file.size);
+    const sheets = await readWorkbook(buffer);
+    return { source: { kind: "workbook", sheets }, errors: [] };
+  }
+
+  const { text, encoding: usedEncoding } = await readFileText(file, encoding, onProgress);
+  const format = detectFormat(file.name, text);
+  onProgress?.("parsing", file.size, file.size);
+  return format ? { ...parseImportText(format, text), encoding: usedEncoding } : null;
+};
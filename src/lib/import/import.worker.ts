@@ -0,0 +1,27 @@
+// Web Worker entry, see worker.ts for the main-thread side
+
+import { numberOccurrences } from "./fingerprint";
+import { parseImportFile } from "./formats";
+import { mapRows } from "./mapping";
+import type { WorkerRequest, WorkerResponse } from "./worker";
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === "parse") {
+      const result = await parseImportFile(request.file, request.encoding, (stage, loaded, total) =>
+        post({ type: "progress", stage, loaded, total })
+      );
+      post({ type: "parsed", result });
+    } else {
+      const { rows, errors } = mapRows(request.table, request.mapping, request.options);
+      const occurrences = numberOccurrences(rows.map((row) => row.transaction));
+      post({ type: "mapped", rows, errors, occurrences });
+    }
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : "Failed to read file" });
+  }
+};
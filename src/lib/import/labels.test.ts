@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { formatLabels, mergeLabels, normalizeLabel, parseLabels } from "./labels";
+
+describe("normalizeLabel", () => {
+  it("drops extra whitespace and keeps the spelling", () => {
+    expect(normalizeLabel(" Trip   Japan ")).toBe("Trip Japan");
+  });
+});
+
+describe("parseLabels", () => {
+  it("splits on commas and semicolons", () => {
+    expect(parseLabels("food; trip-japan, work")).toEqual(["food", "trip-japan", "work"]);
+  });
+
+  it("reads a cell that starts with a hashtag as hashtags", () => {
+    expect(parseLabels("#food #trip-japan,#work")).toEqual(["food", "trip-japan", "work"]);
+  });
+
+  it("keeps hashes inside labels", () => {
+    expect(parseLabels("c#, f#")).toEqual(["c#", "f#"]);
+  });
+
+  it("drops blanks and repeats, keeping the first spelling", () => {
+    expect(parseLabels("Food,, food ;")).toEqual(["Food"]);
+    expect(parseLabels("")).toEqual([]);
+  });
+
+  it("keeps separators and quotes inside quoted labels", () => {
+    expect(parseLabels('"a;b", "say ""hi""", Trip')).toEqual(["a;b", 'say "hi"', "Trip"]);
+  });
+});
+
+describe("formatLabels", () => {
+  it("writes labels that parseLabels reads back unchanged", () => {
+    const labels = ["Trip", "a;b", "x,y", 'say "hi"', "#1", "c#"];
+    expect(formatLabels(labels)).toBe('Trip, "a;b", "x,y", "say ""hi""", "#1", c#');
+    expect(parseLabels(formatLabels(labels))).toEqual(labels);
+    expect(formatLabels(null)).toBe("");
+  });
+});
+
+describe("mergeLabels", () => {
+  it("combines lists and is null when nothing is left", () => {
+    expect(mergeLabels(["Food"], null, ["work", "food"])).toEqual(["Food", "work"]);
+    expect(mergeLabels(null, [" "], undefined)).toBeNull();
+  });
+});
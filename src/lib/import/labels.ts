@@ -0,0 +1,64 @@
+// Labels (tags) on imported transactions. Exports separate them with commas
+// or semicolons, or write them as #hashtags inside a single cell. Labels keep
+// the spelling they were first seen with, but are compared case-insensitively
+// so "Travel" and "travel" are the same label.
+
+export const normalizeLabel = (label: string): string => label.trim().replace(/\s+/g, " ");
+
+// Splits on commas and semicolons outside double quotes; a quote inside a
+// quoted label is doubled, as in CSV
+const splitLabels = (value: string): string[] => {
+  const labels: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (quoted) {
+      if (char === '"' && value[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' && !current.trim()) {
+      current = "";
+      quoted = true;
+    } else if (char === "," || char === ";") {
+      labels.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  labels.push(current);
+  return labels;
+};
+
+// "#food #trip-japan" and "food; trip-japan" both give ["food", "trip-japan"].
+// Only a cell that starts with a hashtag is read as hashtags, so a label
+// such as "c#" survives an export and re-import.
+export const parseLabels = (value: string): string[] => {
+  const labels = value.trim().startsWith("#")
+    ? (value.match(/#[^\s#,;]+/gu) ?? []).map((tag) => tag.slice(1))
+    : splitLabels(value);
+  return mergeLabels(labels) ?? [];
+};
+
+// Writes labels the way parseLabels reads them back: labels with a
+// separator or quote, or that would start a hashtag cell, are quoted
+export const formatLabels = (labels: string[] | null): string =>
+  (labels || [])
+    .map((label) => (/[,;"]|^#/.test(label) ? `"${label.replace(/"/g, '""')}"` : label))
+    .join(", ");
+
+// Combines label lists, dropping blanks and repeats in any case; null when
+// empty, as stored in the database
+export const mergeLabels = (...lists: (string[] | null | undefined)[]): string[] | null => {
+  const labels = new Map<string, string>();
+  for (const label of lists.flatMap((list) => (list || []).map(normalizeLabel))) {
+    if (label && !labels.has(label.toLowerCase())) labels.set(label.toLowerCase(), label);
+  }
+  return labels.size > 0 ? Array.from(labels.values()) : null;
+};
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_IMPORT_OPTIONS,
+  applyMapping,
+  guessField,
+  guessMapping,
+  mapRows,
+  parseDirection,
+  validateMapping,
+} from "./mapping";
+import { ImportTable } from "./types";
+
+const table = (headers: string[], ...rows: string[][]): ImportTable => ({
+  headers,
+  rows: rows.map((fields, i) => ({ fields, line: i + 2 })),
+});
+
+describe("guessField", () => {
+  it("matches headers word by word", () => {
+    expect(guessField("Transaction Date")).toBe("date");
+    expect(guessField("Sub-Category")).toBe("subcategory");
+    expect(guessField("Paid from")).toBe("paid_from");
+    expect(guessField("Subtotal")).toBe("ignore");
+    expect(guessField("Unpaid")).toBe("ignore");
+  });
+
+  it("matches Chinese headers whole", () => {
+    expect(guessField("交易日期")).toBe("date");
+    expect(guessField("支出金额")).toBe("expense");
+  });
+});
+
+describe("guessMapping", () => {
+  it("maps each field once, except labels", () => {
+    expect(guessMapping(["Date", "Amount", "Date", "Tags", "Labels", "Misc"])).toEqual([
+      "date",
+      "amount",
+      "ignore",
+      "labels",
+      "labels",
+      "ignore",
+    ]);
+  });
+});
+
+describe("validateMapping", () => {
+  it("needs a date and an amount", () => {
+    expect(validateMapping(["note", "amount"])).toBe("Choose which column holds the date");
+    expect(validateMapping(["date", "note"])).toBe("Choose at least one income, expense or amount column");
+    expect(validateMapping(["date", "income", "expense"])).toBeNull();
+  });
+
+  it("needs a signed amount for an indicator column", () => {
+    expect(validateMapping(["date", "expense", "direction"])).toBe("A debit/credit indicator needs a signed amount column");
+  });
+});
+
+describe("parseDirection", () => {
+  it("reads indicators in the usual spellings", () => {
+    expect(["CR", "Credit", "H", "收入"].map(parseDirection)).toEqual(["credit", "credit", "credit", "credit"]);
+    expect(["D", "dr.", "Soll", "支出"].map(parseDirection)).toEqual(["debit", "debit", "debit", "debit"]);
+    expect(parseDirection("maybe")).toBeNull();
+  });
+});
+
+describe("mapRows", () => {
+  it("maps income and expense columns with defaults for missing fields", () => {
+    const { rows, errors } = mapRows(
+      table(["Date", "Income", "Expense", "Note"], ["2024-01-31", "", "12.50", "Coffee"]),
+      ["date", "income", "expense", "note"]
+    );
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      {
+        line: 2,
+        transaction: {
+          date: "2024-01-31",
+          category: "Uncategorized",
+          subcategory: null,
+          income: 0,
+          expense: 12.5,
+          note: "Coffee",
+          paid_from: null,
+          labels: null,
+        },
+      },
+    ]);
+  });
+
+  it("keeps rows with a missing category for the preview to fix", () => {
+    const mapping = guessMapping(["Date", "Category", "Amount"]);
+    const rowsTable = table(["Date", "Category", "Amount"], ["2024-01-31", "", "-5"]);
+    expect(mapRows(rowsTable, mapping).rows).toMatchObject([{ transaction: { category: "", expense: 5 } }]);
+    expect(applyMapping(rowsTable, mapping).errors).toEqual([{ line: 2, message: "Missing category" }]);
+  });
+
+  it("reports amounts it can't read", () => {
+    const { rows, errors } = mapRows(table(["Date", "Amount"], ["2024-01-31", "twelve"]), ["date", "amount"]);
+    expect(rows).toEqual([]);
+    expect(errors).toEqual([{ line: 2, message: 'Unrecognized amount "twelve"' }]);
+  });
+
+  it("reads the whole column to settle date order and decimal separator", () => {
+    const { rows } = mapRows(
+      table(["Date", "Amount"], ["01/02/2024", "-1.234,56"], ["13/02/2024", "12,5"]),
+      ["date", "amount"]
+    );
+    expect(rows.map((r) => [r.transaction.date, r.transaction.income, r.transaction.expense])).toEqual([
+      ["2024-02-01", 0, 1234.56],
+      ["2024-02-13", 12.5, 0],
+    ]);
+  });
+
+  it("applies the default category and paid from", () => {
+    const { rows } = mapRows(table(["Date", "Amount"], ["2024-01-31", "-5"]), ["date", "amount"], {
+      ...DEFAULT_IMPORT_OPTIONS,
+      defaultCategory: "Groceries",
+      defaultPaidFrom: "Cash",
+    });
+    expect(rows[0].transaction).toMatchObject({ category: "Groceries", paid_from: "Cash" });
+  });
+
+  it("reads a signed amount column with the chosen sign convention", () => {
+    const signed = table(["Date", "Amount"], ["2024-01-31", "-5"], ["2024-02-01", "20"]);
+    const amounts = (options = DEFAULT_IMPORT_OPTIONS) =>
+      mapRows(signed, ["date", "amount"], options).rows.map((r) => [r.transaction.income, r.transaction.expense]);
+
+    expect(amounts()).toEqual([
+      [0, 5],
+      [20, 0],
+    ]);
+    expect(amounts({ ...DEFAULT_IMPORT_OPTIONS, signConvention: "negative-income" })).toEqual([
+      [5, 0],
+      [0, 20],
+    ]);
+  });
+
+  it("takes the direction from an indicator column, whatever the sign convention", () => {
+    const indicated = table(["Date", "Amount", "Dr/Cr"], ["2024-01-31", "5", "DR"], ["2024-02-01", "-20", "CR"]);
+    for (const signConvention of ["negative-expense", "negative-income"] as const) {
+      const { rows } = mapRows(indicated, ["date", "amount", "direction"], { ...DEFAULT_IMPORT_OPTIONS, signConvention });
+      expect(rows.map((r) => [r.transaction.income, r.transaction.expense])).toEqual([
+        [0, 5],
+        [20, 0],
+      ]);
+    }
+  });
+
+  it("reports indicators it can't read", () => {
+    const { errors } = mapRows(table(["Date", "Amount", "Dr/Cr"], ["2024-01-31", "5", "?"]), [
+      "date",
+      "amount",
+      "direction",
+    ]);
+    expect(errors).toEqual([{ line: 2, message: 'Unrecognized debit/credit indicator "?"' }]);
+  });
+});
@@ -0,0 +1,340 @@
+import { CellType, ImportRowError, ImportTable, ParsedTransaction } from "./types";
+import {
+  DateFormat,
+  DecimalSeparator,
+  inferDateFormat,
+  inferDecimalSeparator,
+  isValidISODate,
+  normalizeDate,
+  parseAmount,
+} from "./normalize";
+import { mergeLabels, parseLabels } from "./labels";
+
+export type ImportField =
+  | "date"
+  | "category"
+  | "subcategory"
+  | "income"
+  | "expense"
+  | "amount"
+  | "direction"
+  | "note"
+  | "paid_from"
+  | "labels"
+  | "external_id"
+  | "original_currency"
+  | "original_amount"
+  | "ignore";
+
+// One entry per column of the source table
+export type ColumnMapping = ImportField[];
+
+export const IMPORT_FIELDS: { value: ImportField; label: string }[] = [
+  { value: "date", label: "Date" },
+  { value: "category", label: "Category" },
+  { value: "subcategory", label: "Subcategory" },
+  { value: "income", label: "Income" },
+  { value: "expense", label: "Expense" },
+  { value: "amount", label: "Signed amount" },
+  { value: "direction", label: "Debit/credit indicator" },
+  { value: "note", label: "Note" },
+  { value: "paid_from", label: "Paid from" },
+  { value: "labels", label: "Labels" },
+  { value: "external_id", label: "Transaction ID" },
+  { value: "original_currency", label: "Original currency" },
+  { value: "original_amount", label: "Original amount" },
+  { value: "ignore", label: "Ignore" },
+];
+
+// How a single signed amount column should be read. Credit card exports
+// often write purchases as positive numbers, so "negative-income" inverts
+// the usual convention.
+export type SignConvention = "negative-expense" | "negative-income";
+
+export interface ImportOptions {
+  dateFormat: DateFormat;
+  decimalSeparator: DecimalSeparator;
+  signConvention: SignConvention;
+  defaultCategory: string;
+  defaultPaidFrom: string;
+}
+
+export const DEFAULT_IMPORT_OPTIONS: ImportOptions = {
+  dateFormat: "auto",
+  decimalSeparator: "auto",
+  signConvention: "negative-expense",
+  defaultCategory: "",
+  defaultPaidFrom: "",
+};
+
+// Header words that identify each field. Headers are matched word by word so
+// that e.g. "Subtotal" or "Unpaid" never match "sub" or "paid".
+// Chinese headers have no spaces between words, so each one is listed whole
+const FIELD_KEYWORDS: [ImportField, string[][]][] = [
+  ["external_id", [["external", "id"], ["transaction", "id"], ["fitid"], ["交易流水号"]]],
+  ["original_amount", [["original", "amount"], ["foreign", "amount"], ["原币金额"]]],
+  ["original_currency", [["currency"], ["original", "currency"], ["币种"], ["货币"]]],
+  ["direction", [["debit", "credit"], ["credit", "debit"], ["dr", "cr"], ["cr", "dr"], ["indicator"], ["direction"], ["收支"], ["收支类型"], ["借贷标志"]]],
+  ["subcategory", [["subcategory"], ["sub", "category"], ["子分类"], ["子类别"], ["二级分类"]]],
+  ["category", [["category"], ["分类"], ["类别"], ["一级分类"]]],
+  ["date", [["date"], ["日期"], ["交易日期"], ["记账日期"], ["时间"], ["交易时间"]]],
+  ["income", [["income"], ["deposit"], ["deposits"], ["inflow"], ["credit"], ["credits"], ["收入"], ["收入金额"], ["存入"]]],
+  ["expense", [["expense"], ["expenses"], ["withdrawal"], ["withdrawals"], ["outflow"], ["debit"], ["debits"], ["支出"], ["支出金额"], ["支取"]]],
+  ["amount", [["amount"], ["amt"], ["金额"], ["交易金额"]]],
+  ["paid_from", [["paid", "from"], ["account"], ["payment", "method"], ["账户"], ["支付方式"], ["付款方式"]]],
+  ["labels", [["label"], ["labels"], ["tag"], ["tags"], ["标签"]]],
+  ["note", [["note"], ["notes"], ["description"], ["memo"], ["details"], ["payee"], ["备注"], ["摘要"], ["说明"]]],
+];
+
+const headerWords = (header: string): string[] =>
+  header
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+export const guessField = (header: string): ImportField => {
+  const words = headerWords(header);
+  for (const [field, patterns] of FIELD_KEYWORDS) {
+    if (patterns.some((pattern) => pattern.every((word) => words.includes(word)))) {
+      return field;
+    }
+  }
+  return "ignore";
+};
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const used = new Set<ImportField>();
+  return headers.map((header) => {
+    const field = guessField(header);
+    // Labels may legitimately come from several columns, everything else once
+    if (field === "ignore" || (used.has(field) && field !== "labels")) return "ignore";
+    used.add(field);
+    return field;
+  });
+};
+
+export const validateMapping = (mapping: ColumnMapping): string | null => {
+  if (!mapping.includes("date")) return "Choose which column holds the date";
+  if (!mapping.some((f) => f === "income" || f === "expense" || f === "amount")) {
+    return "Choose at least one income, expense or amount column";
+  }
+  if (mapping.includes("direction") && !mapping.includes("amount")) {
+    return "A debit/credit indicator needs a signed amount column";
+  }
+  return null;
+};
+
+const CREDIT_INDICATORS = ["c", "cr", "credit", "crdt", "+", "in", "deposit", "h", "haben", "收入", "收"];
+const DEBIT_INDICATORS = ["d", "dr", "debit", "dbit", "-", "out", "withdrawal", "s", "soll", "支出", "支"];
+
+// Reads a Debit/Credit column value; null when it is neither
+export const parseDirection = (value: string): "credit" | "debit" | null => {
+  const normalized = value.trim().toLowerCase().replace(/\.$/, "");
+  if (CREDIT_INDICATORS.includes(normalized)) return "credit";
+  if (DEBIT_INDICATORS.includes(normalized)) return "debit";
+  return null;
+};
+
+export const sampleValues = (table: ImportTable, columnIndex: number, count = 3): string[] => {
+  const samples: string[] = [];
+  for (const row of table.rows) {
+    const value = (row.fields[columnIndex] || "").trim();
+    if (value) samples.push(value);
+    if (samples.length >= count) break;
+  }
+  return samples;
+};
+
+const AMOUNT_FIELDS: ImportField[] = ["income", "expense", "amount", "original_amount"];
+
+// Text values of every column mapped to one of the given fields. Typed
+// spreadsheet cells are left out since they need no locale interpretation.
+const columnValues = (table: ImportTable, mapping: ColumnMapping, fields: ImportField[]): string[] => {
+  const values: string[] = [];
+  mapping.forEach((field, index) => {
+    if (!fields.includes(field)) return;
+    for (const row of table.rows) {
+      const value = (row.fields[index] || "").trim();
+      if (value && (row.types?.[index] ?? "text") === "text") values.push(value);
+    }
+  });
+  return values;
+};
+
+export interface ResolvedFormats {
+  dateFormat: Exclude<DateFormat, "auto">;
+  decimalSeparator: Exclude<DecimalSeparator, "auto">;
+  // True when "auto" was chosen but no row tells MM/DD from DD/MM
+  ambiguousDates: boolean;
+}
+
+// Replaces "auto" options with what the whole column suggests, so a single
+// 13/01/2024 on the last row settles how every other row is read
+export const resolveFormats = (
+  table: ImportTable,
+  mapping: ColumnMapping,
+  options: ImportOptions
+): ResolvedFormats => {
+  const inferredDate = options.dateFormat === "auto"
+    ? inferDateFormat(columnValues(table, mapping, ["date"]))
+    : { format: options.dateFormat, ambiguous: false };
+  const decimalSeparator = options.decimalSeparator === "auto"
+    ? inferDecimalSeparator(columnValues(table, mapping, AMOUNT_FIELDS))
+    : options.decimalSeparator;
+
+  return { dateFormat: inferredDate.format, decimalSeparator, ambiguousDates: inferredDate.ambiguous };
+};
+
+export interface MappedRow {
+  line: number;
+  transaction: ParsedTransaction;
+}
+
+// Problems a user can fix by editing the transaction, as opposed to rows
+// whose amounts could not be read at all
+export const validateTransaction = (transaction: ParsedTransaction): string | null => {
+  if (!transaction.date) return "Missing date";
+  if (!isValidISODate(transaction.date)) return `Unrecognized date "${transaction.date}"`;
+  if (!transaction.category.trim()) return "Missing category";
+  return null;
+};
+
+// Maps every row, keeping rows with a bad date or missing category so they
+// can be fixed in the import preview. Only unreadable amounts are errors.
+export const mapRows = (
+  table: ImportTable,
+  mapping: ColumnMapping,
+  options: ImportOptions = DEFAULT_IMPORT_OPTIONS
+): { rows: MappedRow[]; errors: ImportRowError[] } => {
+  const rows: MappedRow[] = [];
+  const errors: ImportRowError[] = [];
+  const hasCategoryColumn = mapping.includes("category");
+  const defaultCategory = options.defaultCategory.trim() || (hasCategoryColumn ? "" : "Uncategorized");
+  const defaultPaidFrom = options.defaultPaidFrom.trim() || null;
+  const { dateFormat, decimalSeparator } = resolveFormats(table, mapping, options);
+  const toNumber = (value: string, type?: CellType): number | null => {
+    if (type === "number") return Number.isFinite(Number(value)) ? Number(value) : null;
+    return parseAmount(value, decimalSeparator);
+  };
+
+  for (const row of table.rows) {
+    const transaction: ParsedTransaction = {
+      date: "",
+      category: "",
+      subcategory: null,
+      income: 0,
+      expense: 0,
+      note: null,
+      paid_from: null,
+      labels: null,
+    };
+    let invalidAmount: string | null = null;
+    let direction: "credit" | "debit" | null = null;
+    let invalidDirection: string | null = null;
+    let signedAmount = 0;
+
+    mapping.forEach((field, index) => {
+      const value = (row.fields[index] || "").trim();
+      const type = row.types?.[index];
+      if (!value) return;
+
+      let amount = 0;
+      if (AMOUNT_FIELDS.includes(field)) {
+        const parsed = toNumber(value, type);
+        if (parsed === null) {
+          invalidAmount = invalidAmount ?? value;
+          return;
+        }
+        amount = parsed;
+      }
+
+      switch (field) {
+        case "date":
+          transaction.date = normalizeDate(value, dateFormat);
+          break;
+        case "category":
+          transaction.category = value;
+          break;
+        case "subcategory":
+          transaction.subcategory = value;
+          break;
+        case "income":
+          transaction.income += Math.abs(amount);
+          break;
+        case "expense":
+          transaction.expense += Math.abs(amount);
+          break;
+        case "amount":
+          signedAmount += amount;
+          break;
+        case "direction":
+          direction = parseDirection(value);
+          if (!direction) invalidDirection = value;
+          break;
+        case "note":
+          transaction.note = value;
+          break;
+        case "paid_from":
+          transaction.paid_from = value;
+          break;
+        case "labels":
+          transaction.labels = mergeLabels(transaction.labels, parseLabels(value));
+          break;
+        case "external_id":
+          transaction.external_id = value;
+          break;
+        case "original_currency":
+          transaction.original_currency = value.toUpperCase();
+          break;
+        case "original_amount":
+          transaction.original_amount = Math.abs(amount);
+          break;
+      }
+    });
+
+    // An indicator column decides the direction and the amount is read as a
+    // magnitude; otherwise the sign of the amount does, read with the chosen
+    // sign convention
+    if (direction) signedAmount = direction === "credit" ? Math.abs(signedAmount) : -Math.abs(signedAmount);
+    else if (options.signConvention === "negative-income") signedAmount = -signedAmount;
+    if (signedAmount >= 0) transaction.income += signedAmount;
+    else transaction.expense += -signedAmount;
+
+    // A currency column without an original amount column means the amounts
+    // themselves are in that currency
+    if (transaction.original_currency && transaction.original_amount == null) {
+      transaction.original_amount = transaction.income || transaction.expense;
+    }
+
+    if (!transaction.category) transaction.category = defaultCategory;
+    if (!transaction.paid_from) transaction.paid_from = defaultPaidFrom;
+
+    if (invalidAmount !== null) {
+      errors.push({ line: row.line, message: `Unrecognized amount "${invalidAmount}"` });
+    } else if (invalidDirection !== null) {
+      errors.push({ line: row.line, message: `Unrecognized debit/credit indicator "${invalidDirection}"` });
+    } else {
+      rows.push({ line: row.line, transaction });
+    }
+  }
+
+  return { rows, errors };
+};
+
+export const applyMapping = (
+  table: ImportTable,
+  mapping: ColumnMapping,
+  options: ImportOptions = DEFAULT_IMPORT_OPTIONS
+): { transactions: ParsedTransaction[]; errors: ImportRowError[] } => {
+  const { rows, errors } = mapRows(table, mapping, options);
+  const transactions: ParsedTransaction[] = [];
+
+  for (const { line, transaction } of rows) {
+    const problem = validateTransaction(transaction);
+    if (problem) errors.push({ line, message: problem });
+    else transactions.push(transaction);
+  }
+
+  errors.sort((a, b) => a.line - b.line);
+  return { transactions, errors };
+};
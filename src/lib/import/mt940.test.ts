@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { isMT940, parseMT940, parseMT940Details } from "./mt940";
+
+const STATEMENT = `:20:STMT1
+:25:DE89370400440532013000
+:28C:1/1
+:60F:C240101EUR1000,00
+:61:2401310131D12,50NTRFNONREF//B1
+:86:166?00SEPA?20Invoice 42?21 paid?32Coffee Shop
+:61:2402010201C1000,00NTRFNONREF//B1
+:86:/NAME/Employer/REMI/Salary January/
+:61:2312311231D5,00NMSCNONREF
+Card fee
+:62F:C240201EUR1982,50
+-`;
+
+describe("isMT940", () => {
+  it("recognizes statements by their :20: and :61: fields", () => {
+    expect(isMT940(STATEMENT)).toBe(true);
+    expect(isMT940("Date,Amount\n")).toBe(false);
+  });
+});
+
+describe("parseMT940Details", () => {
+  it("reads German ?NN subfields", () => {
+    expect(parseMT940Details("166?00SEPA?20Invoice 42?21 paid?32Coffee Shop")).toEqual({
+      name: "Coffee Shop",
+      remittance: "Invoice 42 paid",
+    });
+  });
+
+  it("reads /KEY/value pairs", () => {
+    expect(parseMT940Details("/NAME/Employer/REMI/Salary January/")).toEqual({
+      name: "Employer",
+      remittance: "Salary January",
+    });
+  });
+
+  it("keeps free text as the remittance", () => {
+    expect(parseMT940Details("Rent\nFebruary")).toEqual({ name: null, remittance: "Rent February" });
+  });
+});
+
+describe("parseMT940", () => {
+  it("reads statement lines with their details", () => {
+    const { transactions, errors } = parseMT940(STATEMENT);
+    expect(errors).toEqual([]);
+    expect(transactions).toEqual([
+      {
+        date: "2024-01-31",
+        category: "Uncategorized",
+        subcategory: null,
+        income: 0,
+        expense: 12.5,
+        note: "Coffee Shop - Invoice 42 paid",
+        paid_from: null,
+        labels: null,
+        external_id: "DE89370400440532013000:2024-01-31:D12.50:B1",
+      },
+      {
+        date: "2024-02-01",
+        category: "Uncategorized",
+        subcategory: null,
+        income: 1000,
+        expense: 0,
+        note: "Employer - Salary January",
+        paid_from: null,
+        labels: null,
+        external_id: "DE89370400440532013000:2024-02-01:C1000.00:B1",
+      },
+      {
+        date: "2023-12-31",
+        category: "Uncategorized",
+        subcategory: null,
+        income: 0,
+        expense: 5,
+        note: "Card fee",
+        paid_from: null,
+        labels: null,
+        external_id: null,
+      },
+    ]);
+  });
+
+  it("takes the entry date's year from the value date across a year end", () => {
+    const { transactions } = parseMT940(":20:X\n:61:2401021231D1,00NTRFNONREF\n");
+    expect(transactions[0].date).toBe("2023-12-31");
+  });
+
+  it("books reversals in the opposite direction", () => {
+    const { transactions } = parseMT940(":20:X\n:61:240131RD1,00NTRFNONREF\n");
+    expect(transactions[0]).toMatchObject({ income: 1, expense: 0 });
+  });
+
+  it("reports lines it can't read", () => {
+    const { errors } = parseMT940(":20:X\n:61:garbage\n:61:241332D1,00NTRFNONREF\n");
+    expect(errors).toEqual([
+      { line: 2, message: "Unrecognized :61: statement line" },
+      { line: 3, message: 'Invalid date "241332"' },
+    ]);
+  });
+});
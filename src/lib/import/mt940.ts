@@ -0,0 +1,150 @@
+// SWIFT MT940 customer statement parser. A statement is a sequence of
+// `:tag:` fields; every :61: statement line is followed by an optional :86:
+// field with counterparty and remittance details, which banks write either
+// as free text, as German ?NN subfields or as /KEY/value pairs.
+
+import { ImportRowError, ParsedTransaction } from "./types";
+import { isValidISODate } from "./normalize";
+
+interface MT940Field {
+  tag: string;
+  value: string;
+  line: number;
+}
+
+// :61: value date (YYMMDD), optional entry date (MMDD), [R]C/D mark,
+// optional funds code, amount with decimal comma, transaction type, references
+const STATEMENT_LINE = /^(\d{6})(\d{4})?(R?[CD])([A-Z])?(\d+,\d*)([NFS][A-Z0-9]{3})([\s\S]*)$/;
+
+export const isMT940 = (text: string): boolean => /^:20:/m.test(text) && /^:61:/m.test(text);
+
+const readFields = (text: string): MT940Field[] => {
+  const fields: MT940Field[] = [];
+  text.split(/\r\n|\r|\n/).forEach((line, index) => {
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (match) {
+      fields.push({ tag: match[1], value: match[2], line: index + 1 });
+    } else if (fields.length > 0 && line !== "-" && !line.startsWith("-}") && !line.startsWith("{")) {
+      // Continuation of the previous field
+      fields[fields.length - 1].value += "\n" + line;
+    }
+  });
+  return fields;
+};
+
+const parseDate = (yymmdd: string): string | null => {
+  const year = Number(yymmdd.slice(0, 2));
+  const iso = `${year < 80 ? 2000 + year : 1900 + year}-${yymmdd.slice(2, 4)}-${yymmdd.slice(4, 6)}`;
+  return isValidISODate(iso) ? iso : null;
+};
+
+// The booking (entry) date only carries MMDD and borrows the value date's
+// year, adjusted when the two straddle a year end
+const bookingDate = (valueDate: string, entryDate: string | undefined): string | null => {
+  if (!entryDate) return parseDate(valueDate);
+  const valueYear = Number(valueDate.slice(0, 2));
+  const valueMonth = Number(valueDate.slice(2, 4));
+  const entryMonth = Number(entryDate.slice(0, 2));
+  let year = valueYear;
+  if (valueMonth === 1 && entryMonth === 12) year -= 1;
+  if (valueMonth === 12 && entryMonth === 1) year += 1;
+  return parseDate(`${String((year + 100) % 100).padStart(2, "0")}${entryDate}`);
+};
+
+// Extracts counterparty name and remittance text from an :86: field
+export const parseMT940Details = (value: string): { name: string | null; remittance: string | null } => {
+  const text = value.replace(/\n/g, "");
+
+  if (/\?\d{2}/.test(text)) {
+    const subfields: Record<string, string> = {};
+    text.split("?").slice(1).forEach((part) => {
+      const code = part.slice(0, 2);
+      subfields[code] = (subfields[code] || "") + part.slice(2);
+    });
+    const pick = (codes: number[]) =>
+      codes.map((c) => subfields[String(c).padStart(2, "0")] || "").join("").trim() || null;
+    return {
+      name: pick([32, 33]),
+      remittance: pick([20, 21, 22, 23, 24, 25, 26, 27, 28, 29, 60, 61, 62, 63]),
+    };
+  }
+
+  if (/\/(NAME|REMI)\//.test(text)) {
+    const readKey = (key: string) => {
+      const match = text.match(new RegExp(`/${key}/(.*?)(?=/[A-Z]{2,4}/|$)`));
+      return match ? match[1].replace(/\/$/, "").trim() || null : null;
+    };
+    return { name: readKey("NAME"), remittance: readKey("REMI") };
+  }
+
+  return { name: null, remittance: value.replace(/\s*\n\s*/g, " ").trim() || null };
+};
+
+export const parseMT940 = (
+  text: string
+): { transactions: ParsedTransaction[]; errors: ImportRowError[] } => {
+  const transactions: ParsedTransaction[] = [];
+  const errors: ImportRowError[] = [];
+  const fields = readFields(text);
+
+  let account: string | null = null;
+
+  fields.forEach((field, index) => {
+    if (field.tag === "25") {
+      account = field.value.trim() || null;
+      return;
+    }
+    if (field.tag !== "61") return;
+
+    const [statementLine, ...supplementary] = field.value.split("\n");
+    const match = statementLine.trim().match(STATEMENT_LINE);
+    if (!match) {
+      errors.push({ line: field.line, message: "Unrecognized :61: statement line" });
+      return;
+    }
+
+    const [, valueDate, entryDate, mark, , amountText, , references] = match;
+    const date = bookingDate(valueDate, entryDate);
+    if (!date) {
+      errors.push({ line: field.line, message: `Invalid date "${valueDate}"` });
+      return;
+    }
+
+    const amount = parseFloat(amountText.replace(",", "."));
+    // RC / RD are reversals of a credit / debit
+    const isCredit = mark === "C" || mark === "RD";
+
+    const next = fields[index + 1];
+    const details = next?.tag === "86" ? parseMT940Details(next.value) : null;
+    const fallback = supplementary.join(" ").trim() || null;
+    const note = [details?.name, details?.remittance ?? fallback].filter(Boolean).join(" - ");
+
+    // Banks reuse their reference for unrelated entries (batch and standing
+    // order references), so it only identifies an entry together with the
+    // account, date, direction and amount
+    const [, bankReference] = references.split("//");
+    const reference = bankReference?.trim();
+    const externalId =
+      reference && reference !== "NONREF"
+        ? [account, date, `${isCredit ? "C" : "D"}${amount.toFixed(2)}`, reference].filter(Boolean).join(":")
+        : null;
+
+    transactions.push({
+      date,
+      category: "Uncategorized",
+      subcategory: null,
+      income: isCredit ? amount : 0,
+      expense: isCredit ? 0 : amount,
+      note: note || null,
+      paid_from: null,
+      labels: null,
+      external_id: externalId,
+    });
+  });
+
+  if (transactions.length === 0 && errors.length === 0) {
+    errors.push({ line: 1, message: "No :61: statement lines found" });
+  }
+
+  return { transactions, errors };
+};
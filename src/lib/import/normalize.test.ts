@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+  createLineLocator,
+  inferDateFormat,
+  inferDecimalSeparator,
+  isValidISODate,
+  normalizeDate,
+  parseAmount,
+} from "./normalize";
+
+describe("parseAmount", () => {
+  it("reads decimal dots and commas with thousands separators", () => {
+    expect(parseAmount("1,234.56")).toBe(1234.56);
+    expect(parseAmount("1.234,56", ",")).toBe(1234.56);
+    expect(parseAmount("1 234,56", ",")).toBe(1234.56);
+    expect(parseAmount("1'234.56")).toBe(1234.56);
+  });
+
+  it("reads the sign notations banks use", () => {
+    expect(parseAmount("-12.50")).toBe(-12.5);
+    expect(parseAmount("12.50-")).toBe(-12.5);
+    expect(parseAmount("(12.50)")).toBe(-12.5);
+    expect(parseAmount("\u221212.50")).toBe(-12.5);
+    expect(parseAmount("+12.50")).toBe(12.5);
+  });
+
+  it("strips currency symbols and codes", () => {
+    expect(parseAmount("-$12.50")).toBe(-12.5);
+    expect(parseAmount("$-12.50")).toBe(-12.5);
+    expect(parseAmount("12,50 €", ",")).toBe(12.5);
+    expect(parseAmount("EUR 1.000,00", ",")).toBe(1000);
+  });
+
+  it("infers the separator of a single value when asked to", () => {
+    expect(parseAmount("1.234,56", "auto")).toBe(1234.56);
+    expect(parseAmount("1,234.56", "auto")).toBe(1234.56);
+  });
+
+  it("returns null for anything that is not an amount", () => {
+    expect(parseAmount("")).toBeNull();
+    expect(parseAmount("   ")).toBeNull();
+    expect(parseAmount("abc")).toBeNull();
+    expect(parseAmount("1.2.3")).toBeNull();
+  });
+});
+
+describe("inferDecimalSeparator", () => {
+  it("votes over the whole column", () => {
+    expect(inferDecimalSeparator(["1.234,56", "12,5", "3"])).toBe(",");
+    expect(inferDecimalSeparator(["1,234.56", "12.5"])).toBe(".");
+  });
+
+  it("ignores values that are ambiguous on their own", () => {
+    expect(inferDecimalSeparator(["1,234", "2,500", "0,75"])).toBe(",");
+    expect(inferDecimalSeparator(["1,234"])).toBe(".");
+  });
+});
+
+describe("normalizeDate", () => {
+  it("reads ISO and compact dates", () => {
+    expect(normalizeDate("2024-01-31")).toBe("2024-01-31");
+    expect(normalizeDate("2024/1/5")).toBe("2024-01-05");
+    expect(normalizeDate("20240131")).toBe("2024-01-31");
+    expect(normalizeDate("2024年1月31日")).toBe("2024-01-31");
+  });
+
+  it("reads day and month in the requested order", () => {
+    expect(normalizeDate("01/02/2024")).toBe("2024-01-02");
+    expect(normalizeDate("01/02/2024", "DD/MM/YYYY")).toBe("2024-02-01");
+    expect(normalizeDate("31.01.24", "DD/MM/YYYY")).toBe("2024-01-31");
+  });
+
+  it("reads month names", () => {
+    expect(normalizeDate("31 Jan 2024")).toBe("2024-01-31");
+    expect(normalizeDate("31-Jan-24")).toBe("2024-01-31");
+    expect(normalizeDate("January 31, 2024")).toBe("2024-01-31");
+  });
+
+  it("ignores the time of day", () => {
+    expect(normalizeDate("2024-01-31T12:30:00Z")).toBe("2024-01-31");
+    expect(normalizeDate("01/31/2024 9:05 PM")).toBe("2024-01-31");
+  });
+
+  it("returns unrecognized values unchanged", () => {
+    expect(normalizeDate("yesterday")).toBe("yesterday");
+    expect(normalizeDate("")).toBe("");
+  });
+});
+
+describe("inferDateFormat", () => {
+  it("settles the order by a day above 12", () => {
+    expect(inferDateFormat(["01/02/2024", "31/01/2024"])).toEqual({ format: "DD/MM/YYYY", ambiguous: false });
+    expect(inferDateFormat(["01/02/2024", "01/31/2024"])).toEqual({ format: "MM/DD/YYYY", ambiguous: false });
+  });
+
+  it("reads dotted dates day-first", () => {
+    expect(inferDateFormat(["01.02.2024", "03.04.2024"])).toEqual({ format: "DD/MM/YYYY", ambiguous: false });
+  });
+
+  it("flags columns that could be either", () => {
+    expect(inferDateFormat(["01/02/2024", "03/04/2024"])).toEqual({ format: "MM/DD/YYYY", ambiguous: true });
+    expect(inferDateFormat(["2024-01-31"])).toEqual({ format: "YYYY-MM-DD", ambiguous: false });
+  });
+});
+
+describe("isValidISODate", () => {
+  it("accepts real calendar days only", () => {
+    expect(isValidISODate("2024-02-29")).toBe(true);
+    expect(isValidISODate("2023-02-29")).toBe(false);
+    expect(isValidISODate("2024-13-01")).toBe(false);
+    expect(isValidISODate("2024-1-31")).toBe(false);
+  });
+});
+
+describe("createLineLocator", () => {
+  it("maps offsets to lines with any line ending", () => {
+    const lineAt = createLineLocator("a\r\nb\rc\nd");
+    expect([0, 3, 5, 7].map(lineAt)).toEqual([1, 2, 3, 4]);
+  });
+});
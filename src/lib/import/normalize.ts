@@ -0,0 +1,210 @@
+export type DecimalSeparator = "auto" | "." | ",";
+
+export type DateFormat = "auto" | "YYYY-MM-DD" | "MM/DD/YYYY" | "DD/MM/YYYY";
+
+export const DATE_FORMATS: { value: DateFormat; label: string }[] = [
+  { value: "auto", label: "Automatic" },
+  { value: "YYYY-MM-DD", label: "YYYY-MM-DD" },
+  { value: "MM/DD/YYYY", label: "MM/DD/YYYY" },
+  { value: "DD/MM/YYYY", label: "DD/MM/YYYY (DD.MM.YYYY)" },
+];
+
+// date-fns pattern for showing a date the way a chosen format writes it;
+// automatic shows it the way the rest of the app does
+export const displayDateFormat = (dateFormat: DateFormat): string =>
+  ({ "YYYY-MM-DD": "yyyy-MM-dd", "MM/DD/YYYY": "MM/dd/yyyy", "DD/MM/YYYY": "dd/MM/yyyy" })[dateFormat] ?? "MM/dd/yyyy";
+
+// Currency symbols and ISO codes that banks put next to amounts
+const CURRENCY_MARKERS = /(?:\b[A-Z]{3}\b|R\$|[$€£¥₩₹₽₺₪฿¢]|\bkr\b|zł|Fr\.)/gi;
+
+// Strips currency markers and sign notation, returning the bare digits and
+// separators plus whether the amount is negative. Handles -12.50, 12.50-,
+// (12.50), -$12.50 and $-12.50.
+const splitSign = (value: string): { digits: string; negative: boolean } => {
+  let text = value.trim().replace(/\u2212/g, "-");
+  let negative = false;
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+
+  text = text.replace(CURRENCY_MARKERS, "").trim();
+
+  if (text.endsWith("-")) {
+    negative = true;
+    text = text.slice(0, -1).trim();
+  }
+  if (text.startsWith("-")) {
+    negative = true;
+    text = text.slice(1).trim();
+  } else if (text.startsWith("+")) {
+    text = text.slice(1).trim();
+  }
+
+  return { digits: text.replace(/[\s\u00a0\u202f']/g, ""), negative };
+};
+
+// Returns null when the value is not a recognizable amount
+export const parseAmount = (value: string, decimalSeparator: DecimalSeparator = "."): number | null => {
+  if (!value || !value.trim()) return null;
+
+  const { digits, negative } = splitSign(value);
+  const separator = decimalSeparator === "auto" ? inferDecimalSeparator([value]) : decimalSeparator;
+  // Remove thousands separators and normalize the decimal separator to a dot
+  const cleaned = separator === ","
+    ? digits.replace(/\./g, '').replace(',', '.')
+    : digits.replace(/,/g, '');
+
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(cleaned)) return null;
+  const amount = Number(cleaned);
+  return negative ? -amount : amount;
+};
+
+export const parseNumber = (value: string, decimalSeparator: DecimalSeparator = "."): number =>
+  parseAmount(value, decimalSeparator) ?? 0;
+
+// Votes over a whole column: "1.234,56" and "12,5" point to a decimal comma,
+// "1,234.56" and "12.5" to a decimal dot. Values such as "1,234" are
+// ambiguous on their own and do not vote.
+export const inferDecimalSeparator = (values: string[]): "." | "," => {
+  let dot = 0;
+  let comma = 0;
+
+  for (const value of values) {
+    const { digits } = splitSign(value);
+    const lastDot = digits.lastIndexOf(".");
+    const lastComma = digits.lastIndexOf(",");
+
+    if (lastDot !== -1 && lastComma !== -1) {
+      if (lastComma > lastDot) comma++;
+      else dot++;
+    } else if (lastComma !== -1) {
+      if (!/^\d{1,3}(,\d{3})+$/.test(digits)) comma++;
+    } else if (lastDot !== -1) {
+      if (!/^\d{1,3}(\.\d{3})+$/.test(digits)) dot++;
+    }
+  }
+
+  return comma > dot ? "," : ".";
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const toISO = (year: number, month: number, day: number): string =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+const expandYear = (year: string): number => {
+  const value = Number(year);
+  if (year.length > 2) return value;
+  return value < 70 ? 2000 + value : 1900 + value;
+};
+
+const monthFromName = (name: string): number => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+// Numeric day/month dates with the year last: 31/01/2024, 1-31-24, 31.01.2024
+const DAY_MONTH_YEAR = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/;
+
+export const normalizeDate = (dateStr: string, dateFormat: DateFormat = "auto"): string => {
+  if (!dateStr) return '';
+  
+  // Try to parse different date formats, ignoring any time of day
+  const cleaned = dateStr.trim().replace(/(?:T|\s+)\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:\s*[AP]M)?(?:Z|[+-]\d{2}:?\d{2})?$/i, '');
+  
+  // Format: YYYY/MM/DD, YYYY-MM-DD or YYYY.MM.DD
+  let match = cleaned.match(/^(\d{4})[/.-](\d{1,2})[/.-](\d{1,2})$/);
+  if (match) {
+    return toISO(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  // Format: YYYYMMDD
+  match = cleaned.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (match) {
+    return toISO(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  // Format: 2024年1月31日
+  match = cleaned.match(/^(\d{4})年(\d{1,2})月(\d{1,2})日?$/);
+  if (match) {
+    return toISO(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+  
+  // Format: MM/DD/YYYY, or DD/MM/YYYY when requested or inferred
+  match = cleaned.match(DAY_MONTH_YEAR);
+  if (match) {
+    const dayFirst = dateFormat === "DD/MM/YYYY";
+    const month = Number(match[dayFirst ? 2 : 1]);
+    const day = Number(match[dayFirst ? 1 : 2]);
+    return toISO(expandYear(match[3]), month, day);
+  }
+
+  // Format: 31 Jan 2024, 31-Jan-24
+  match = cleaned.match(/^(\d{1,2})[\s/.-]+([A-Za-z]{3,})\.?[\s/.-]+(\d{2}|\d{4})$/);
+  if (match && monthFromName(match[2]) > 0) {
+    return toISO(expandYear(match[3]), monthFromName(match[2]), Number(match[1]));
+  }
+
+  // Format: Jan 31, 2024 or January 31 2024
+  match = cleaned.match(/^([A-Za-z]{3,})\.?\s+(\d{1,2}),?\s+(\d{4})$/);
+  if (match && monthFromName(match[1]) > 0) {
+    return toISO(Number(match[3]), monthFromName(match[1]), Number(match[2]));
+  }
+  
+  return cleaned;
+};
+
+// Looks at every date in a column to decide between MM/DD and DD/MM. A day
+// above 12 in either position settles it; if no row does, dotted dates are
+// read day-first (as they are written in Europe) and anything else is
+// ambiguous and read as MM/DD/YYYY.
+export const inferDateFormat = (
+  values: string[]
+): { format: Exclude<DateFormat, "auto">; ambiguous: boolean } => {
+  let firstOver12 = false;
+  let secondOver12 = false;
+  let dayMonthDates = 0;
+  let dotted = 0;
+
+  for (const value of values) {
+    const match = value.trim().split(/\s+/)[0].match(DAY_MONTH_YEAR);
+    if (!match) continue;
+    dayMonthDates++;
+    if (match[0].includes(".")) dotted++;
+    if (Number(match[1]) > 12) firstOver12 = true;
+    if (Number(match[2]) > 12) secondOver12 = true;
+  }
+
+  if (dayMonthDates === 0) return { format: "YYYY-MM-DD", ambiguous: false };
+  if (firstOver12 && !secondOver12) return { format: "DD/MM/YYYY", ambiguous: false };
+  if (!secondOver12 && dotted === dayMonthDates) return { format: "DD/MM/YYYY", ambiguous: false };
+  return { format: "MM/DD/YYYY", ambiguous: !secondOver12 };
+};
+
+export const isValidISODate = (value: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+};
+
+// Maps character offsets to 1-based line numbers for error reporting
+export const createLineLocator = (text: string) => {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  return (offset: number): number => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { isOFX, parseOFX, parseOFXDate } from "./ofx";
+
+const SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKACCTFROM>
+<ACCTID>12345
+</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240131120000.000[-5:EST]
+<TRNAMT>-12.50
+<FITID>A1
+<NAME>Coffee &amp; Co
+<MEMO>Card 1234
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240201
+<TRNAMT>1000,00
+<FITID>A2
+<NAME>Salary
+<MEMO>Salary
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>
+`;
+
+describe("parseOFXDate", () => {
+  it("keeps only the calendar day", () => {
+    expect(parseOFXDate("20240131")).toBe("2024-01-31");
+    expect(parseOFXDate("20240131120000.000[-5:EST]")).toBe("2024-01-31");
+    expect(parseOFXDate("Jan 31")).toBeNull();
+  });
+});
+
+describe("isOFX", () => {
+  it("recognizes OFX 1.x headers and OFX 2.x XML", () => {
+    expect(isOFX(SGML)).toBe(true);
+    expect(isOFX('<?xml version="1.0"?><?OFX OFXHEADER="200"?><OFX></OFX>')).toBe(true);
+    expect(isOFX("Date,Amount\n")).toBe(false);
+  });
+});
+
+describe("parseOFX", () => {
+  it("reads SGML statements with unclosed leaf elements", () => {
+    const { transactions, errors } = parseOFX(SGML);
+    expect(errors).toEqual([]);
+    expect(transactions).toEqual([
+      {
+        date: "2024-01-31",
+        category: "Uncategorized",
+        subcategory: null,
+        income: 0,
+        expense: 12.5,
+        note: "Coffee & Co - Card 1234",
+        paid_from: null,
+        labels: null,
+        external_id: "12345:A1",
+      },
+      {
+        date: "2024-02-01",
+        category: "Uncategorized",
+        subcategory: null,
+        income: 1000,
+        expense: 0,
+        note: "Salary",
+        paid_from: null,
+        labels: null,
+        external_id: "12345:A2",
+      },
+    ]);
+  });
+
+  it("reads XML statements", () => {
+    const { transactions } = parseOFX(
+      "<OFX><CCSTMTRS><STMTTRN><DTPOSTED>20240305</DTPOSTED><TRNAMT>-5.00</TRNAMT>" +
+        "<PAYEE>Bakery</PAYEE></STMTTRN></CCSTMTRS></OFX>"
+    );
+    expect(transactions).toMatchObject([{ date: "2024-03-05", expense: 5, note: "Bakery", external_id: null }]);
+  });
+
+  it("reports entries without a date or amount on their line", () => {
+    const { transactions, errors } = parseOFX(
+      "<OFX>\n<STMTTRN>\n<TRNAMT>-1.00\n</STMTTRN>\n<STMTTRN>\n<DTPOSTED>20240101\n</STMTTRN>\n</OFX>"
+    );
+    expect(transactions).toEqual([]);
+    expect(errors).toEqual([
+      { line: 2, message: "Missing or invalid DTPOSTED" },
+      { line: 5, message: "Missing or invalid TRNAMT" },
+    ]);
+  });
+
+  it("reports files without entries", () => {
+    expect(parseOFX("<OFX></OFX>").errors).toEqual([{ line: 1, message: "No <STMTTRN> entries found" }]);
+  });
+});
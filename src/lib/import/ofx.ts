@@ -0,0 +1,113 @@
+// OFX / QFX statement parser. OFX 1.x is SGML where leaf elements are never
+// closed (`<TRNAMT>-12.50`), OFX 2.x is XML (`<TRNAMT>-12.50</TRNAMT>`).
+// Aggregates such as <STMTTRN> are closed in both, so one tag scanner that
+// reads leaf values up to the next `<` or line break handles either version.
+
+import { ImportRowError, ParsedTransaction } from "./types";
+import { createLineLocator } from "./normalize";
+
+const decodeEntities = (value: string): string =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+
+const readElement = (block: string, tag: string): string | null => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  if (!match) return null;
+  const value = decodeEntities(match[1]).trim();
+  return value || null;
+};
+
+const readAggregates = (text: string, tag: string): { body: string; offset: number }[] => {
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "gi");
+  const blocks: { body: string; offset: number }[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    // Offset of the aggregate's body, so nested offsets can simply be added
+    blocks.push({ body: match[1], offset: match.index + tag.length + 2 });
+  }
+  return blocks;
+};
+
+// DTPOSTED looks like 20240131 or 20240131120000, optionally followed by
+// milliseconds and a bracketed UTC offset such as -5:EST
+export const parseOFXDate = (value: string): string | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  return `${match[1]}-${match[2]}-${match[3]}`;
+};
+
+const parseOFXAmount = (value: string): number | null => {
+  // The spec mandates a dot, but some banks emit a decimal comma
+  const cleaned = value.includes(".") ? value.replace(/,/g, "") : value.replace(",", ".");
+  const amount = parseFloat(cleaned.replace(/^\+/, ""));
+  return Number.isFinite(amount) ? amount : null;
+};
+
+export const isOFX = (text: string): boolean =>
+  /OFXHEADER\s*[:=]/i.test(text.slice(0, 1024)) || /<OFX>/i.test(text);
+
+export const parseOFX = (
+  text: string
+): { transactions: ParsedTransaction[]; errors: ImportRowError[] } => {
+  const transactions: ParsedTransaction[] = [];
+  const errors: ImportRowError[] = [];
+  const lineAt = createLineLocator(text);
+
+  // A file may contain several statements (e.g. checking and credit card)
+  const statements = [
+    ...readAggregates(text, "STMTRS"),
+    ...readAggregates(text, "CCSTMTRS"),
+  ];
+  const sources = statements.length > 0 ? statements : [{ body: text, offset: 0 }];
+
+  for (const statement of sources) {
+    const accountId = readElement(statement.body, "ACCTID");
+
+    for (const block of readAggregates(statement.body, "STMTTRN")) {
+      const line = lineAt(statement.offset + block.offset);
+      const dateValue = readElement(block.body, "DTPOSTED");
+      const amountValue = readElement(block.body, "TRNAMT");
+      const fitId = readElement(block.body, "FITID");
+
+      const date = dateValue ? parseOFXDate(dateValue) : null;
+      if (!date) {
+        errors.push({ line, message: "Missing or invalid DTPOSTED" });
+        continue;
+      }
+
+      const amount = amountValue ? parseOFXAmount(amountValue) : null;
+      if (amount === null) {
+        errors.push({ line, message: "Missing or invalid TRNAMT" });
+        continue;
+      }
+
+      const name = readElement(block.body, "NAME") ?? readElement(block.body, "PAYEE");
+      const memo = readElement(block.body, "MEMO");
+      const note = [name, memo && memo !== name ? memo : null].filter(Boolean).join(" - ");
+
+      transactions.push({
+        date,
+        category: "Uncategorized",
+        subcategory: null,
+        income: amount > 0 ? amount : 0,
+        expense: amount < 0 ? -amount : 0,
+        note: note || null,
+        paid_from: null,
+        labels: null,
+        external_id: fitId ? (accountId ? `${accountId}:${fitId}` : fitId) : null,
+      });
+    }
+  }
+
+  if (transactions.length === 0 && errors.length === 0) {
+    errors.push({ line: 1, message: "No <STMTTRN> entries found" });
+  }
+
+  return { transactions, errors };
+};
@@ -0,0 +1,37 @@
+// Tabular data pasted into the dashboard. Spreadsheets put tab-separated
+// text on the clipboard; bank websites usually put an HTML table there, whose
+// plain-text version loses the cell boundaries. Either way the rows become a
+// tab-separated file that goes through the regular CSV import.
+
+const PASTED_FILE_NAME = "Pasted rows.csv";
+
+const quoteCell = (cell: string): string =>
+  /["\t\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+
+const tableRows = (html: string): string[][] | null => {
+  const table = new DOMParser().parseFromString(html, "text/html").querySelector("table");
+  if (!table) return null;
+
+  return Array.from(table.rows)
+    .map((row) =>
+      Array.from(row.cells).map((cell) => (cell.textContent || "").replace(/\s+/g, " ").trim())
+    )
+    .filter((cells) => cells.some(Boolean));
+};
+
+// Null when the clipboard doesn't hold a header row plus at least one data row
+export const pastedFile = (data: DataTransfer): File | null => {
+  const html = data.getData("text/html");
+  const rows = html ? tableRows(html) : null;
+
+  let text: string;
+  if (rows && rows.length >= 2) {
+    text = rows.map((cells) => cells.map(quoteCell).join("\t")).join("\n");
+  } else {
+    text = data.getData("text/plain");
+    const lines = text.split(/\r\n|\r|\n/).filter((line) => line.trim());
+    if (lines.length < 2 || !/[\t,;|]/.test(lines[0])) return null;
+  }
+
+  return new File([text], PASTED_FILE_NAME, { type: "text/csv" });
+};
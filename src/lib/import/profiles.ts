@@ -0,0 +1,68 @@
+import { Json } from "@/integrations/supabase/types";
+import { ColumnMapping, DEFAULT_IMPORT_OPTIONS, ImportField, ImportOptions, SignConvention, guessMapping } from "./mapping";
+import { DateFormat, DecimalSeparator } from "./normalize";
+
+export interface ImportProfile {
+  id: string;
+  book_id: string | null;
+  name: string;
+  header_signature: string;
+  column_mapping: Json;
+  date_format: string;
+  decimal_separator: string;
+  sign_convention: string;
+  default_category: string | null;
+  default_paid_from: string | null;
+}
+
+const normalizeHeader = (header: string): string =>
+  header.trim().toLowerCase().replace(/\s+/g, " ");
+
+// Identifies a bank export by its exact set and order of column headers
+export const headerSignature = (headers: string[]): string =>
+  headers.map(normalizeHeader).join("|");
+
+// Profiles saved for this book win over profiles shared across all books
+export const findMatchingProfile = (
+  profiles: ImportProfile[],
+  headers: string[],
+  bookId: string
+): ImportProfile | null => {
+  const signature = headerSignature(headers);
+  const candidates = profiles.filter((p) => p.header_signature === signature);
+  return candidates.find((p) => p.book_id === bookId) ?? candidates.find((p) => !p.book_id) ?? null;
+};
+
+export const profileMapping = (profile: ImportProfile, headers: string[]): ColumnMapping => {
+  const saved = (profile.column_mapping || {}) as Record<string, ImportField>;
+  const guessed = guessMapping(headers);
+  return headers.map((header, index) => saved[normalizeHeader(header)] ?? guessed[index]);
+};
+
+export const profileOptions = (profile: ImportProfile): ImportOptions => ({
+  dateFormat: (profile.date_format as DateFormat) || DEFAULT_IMPORT_OPTIONS.dateFormat,
+  decimalSeparator: (profile.decimal_separator as DecimalSeparator) || DEFAULT_IMPORT_OPTIONS.decimalSeparator,
+  signConvention: (profile.sign_convention as SignConvention) || DEFAULT_IMPORT_OPTIONS.signConvention,
+  defaultCategory: profile.default_category || "",
+  defaultPaidFrom: profile.default_paid_from || "",
+});
+
+export const buildProfileRecord = (
+  name: string,
+  headers: string[],
+  mapping: ColumnMapping,
+  options: ImportOptions
+) => ({
+  name,
+  header_signature: headerSignature(headers),
+  column_mapping: Object.fromEntries(
+    headers.map((header, index) => [normalizeHeader(header), mapping[index]])
+  ),
+  date_format: options.dateFormat,
+  decimal_separator: options.decimalSeparator,
+  sign_convention: options.signConvention,
+  default_category: options.defaultCategory.trim() || null,
+  default_paid_from: options.defaultPaidFrom.trim() || null,
+});
+
+export type ImportProfileRecord = ReturnType<typeof buildProfileRecord>;
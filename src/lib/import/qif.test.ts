@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { isQIF, parseQIF, parseQIFCategory } from "./qif";
+
+describe("parseQIFCategory", () => {
+  it("splits category, subcategory and class", () => {
+    expect(parseQIFCategory("Food:Coffee/Business")).toEqual({
+      category: "Food",
+      subcategory: "Coffee",
+      label: "Business",
+    });
+    expect(parseQIFCategory("Auto:Fuel:Diesel")).toEqual({ category: "Auto", subcategory: "Fuel:Diesel", label: null });
+  });
+
+  it("reads transfers", () => {
+    expect(parseQIFCategory("[Savings]")).toEqual({ category: "Transfer", subcategory: "Savings", label: null });
+  });
+});
+
+describe("isQIF", () => {
+  it("recognizes QIF headers", () => {
+    expect(isQIF("!Type:Bank\nD1/31/2024\n^\n")).toBe(true);
+    expect(isQIF("Date,Amount\n")).toBe(false);
+  });
+});
+
+describe("parseQIF", () => {
+  it("reads bank records with the account as paid from", () => {
+    const { transactions, errors } = parseQIF(
+      "!Account\nNChecking\nTBank\n^\n!Type:Bank\nD1/31'24\nT-1,234.56\nPLandlord\nMJanuary rent\nLHousing:Rent\n^\n"
+    );
+    expect(errors).toEqual([]);
+    expect(transactions).toEqual([
+      {
+        date: "2024-01-31",
+        category: "Housing",
+        subcategory: "Rent",
+        income: 0,
+        expense: 1234.56,
+        note: "Landlord - January rent",
+        paid_from: "Checking",
+        labels: null,
+      },
+    ]);
+  });
+
+  it("turns splits into one transaction each", () => {
+    const { transactions } = parseQIF(
+      "!Type:CCard\nD02/01/2024\nT-30.00\nPMarket\nSFood\n$-20.00\nSHousehold\nESoap\n$-10.00\n^\n"
+    );
+    expect(transactions.map((t) => [t.category, t.expense, t.note])).toEqual([
+      ["Food", 20, "Market"],
+      ["Household", 10, "Market - Soap"],
+    ]);
+  });
+
+  it("reads day-first dates and decimal commas", () => {
+    const { transactions, errors } = parseQIF(
+      "!Type:Bank\nD31.01.2024\nT-1.234,56\n^\nD01.02.2024\nT12,50\n^\n"
+    );
+    expect(errors).toEqual([]);
+    expect(transactions.map((t) => [t.date, t.income, t.expense])).toEqual([
+      ["2024-01-31", 0, 1234.56],
+      ["2024-02-01", 12.5, 0],
+    ]);
+  });
+
+  it("skips investment sections", () => {
+    const { transactions } = parseQIF("!Type:Invst\nD1/1/2024\nT100\n^\n!Type:Cash\nD1/2/2024\nT-5\n^\n");
+    expect(transactions).toMatchObject([{ date: "2024-01-02", expense: 5 }]);
+  });
+
+  it("reports records it can't read", () => {
+    const { errors } = parseQIF("!Type:Bank\nDsoon\nT-1\n^\nD1/1/2024\n^\nD1/2/2024\nTabc\n^\n");
+    expect(errors).toEqual([
+      { line: 2, message: 'Unrecognized date "soon"' },
+      { line: 5, message: "Missing amount" },
+      { line: 7, message: 'Unrecognized amount "abc"' },
+    ]);
+  });
+});
@@ -0,0 +1,243 @@
+// Quicken Interchange Format parser. Records are blocks of single-letter
+// prefixed lines terminated by `^`; `!Type:` headers start a new section.
+// Split lines (S/E/$) become one transaction per split, since a transaction
+// row here carries exactly one category.
+
+import { ImportRowError, ParsedTransaction } from "./types";
+import { inferDecimalSeparator, isValidISODate, parseAmount } from "./normalize";
+
+const SUPPORTED_TYPES = ["bank", "ccard", "cash"];
+
+// Amounts are kept as written until the whole file is read, since the
+// decimal separator is inferred from all of them
+interface QIFSplit {
+  category: string | null;
+  memo: string | null;
+  amount: string | null;
+}
+
+interface QIFRecord {
+  line: number;
+  date: string | null;
+  amount: string | null;
+  payee: string | null;
+  memo: string | null;
+  category: string | null;
+  splits: QIFSplit[];
+  account: string | null;
+}
+
+const emptyRecord = (line: number, account: string | null): QIFRecord => ({
+  line,
+  date: null,
+  amount: null,
+  payee: null,
+  memo: null,
+  category: null,
+  splits: [],
+  account,
+});
+
+// Splits "Food:Coffee/Business" into category, subcategory and class.
+// Transfers are written as "[Account Name]".
+export const parseQIFCategory = (
+  value: string | null
+): { category: string | null; subcategory: string | null; label: string | null } => {
+  if (!value) return { category: null, subcategory: null, label: null };
+
+  const [path, qifClass] = value.split("/");
+  const label = qifClass?.trim() || null;
+  const transfer = path.trim().match(/^\[(.*)\]$/);
+  if (transfer) {
+    return { category: "Transfer", subcategory: transfer[1].trim() || null, label };
+  }
+
+  const [category, ...rest] = path.split(":").map((part) => part.trim());
+  return {
+    category: category || null,
+    subcategory: rest.filter(Boolean).join(":") || null,
+    label,
+  };
+};
+
+interface QIFDateParts {
+  first: number;
+  second: number;
+  year: number;
+  yearFirst: boolean;
+}
+
+// QIF dates vary by exporter: 1/31/2024, 01/31/24, 1/31'24, 31.01.2024
+const splitQIFDate = (value: string): QIFDateParts | null => {
+  const match = value.replace(/\s/g, "").match(/^(\d{1,4})[/.-](\d{1,2})['/.-](\d{2,4})$/);
+  if (!match) return null;
+
+  const [first, second, third] = match.slice(1).map(Number);
+  if (match[1].length === 4) return { first: second, second: third, year: first, yearFirst: true };
+
+  let year = third;
+  // Quicken writes years from 2000 on with an apostrophe: 1/31'24
+  if (match[3].length === 2) year += value.includes("'") || year < 50 ? 2000 : 1900;
+  return { first, second, year, yearFirst: false };
+};
+
+export const isQIF = (text: string): boolean => /^\s*!(Type|Account|Option)/im.test(text.slice(0, 1024));
+
+export const parseQIF = (
+  text: string
+): { transactions: ParsedTransaction[]; errors: ImportRowError[] } => {
+  const errors: ImportRowError[] = [];
+  const records: QIFRecord[] = [];
+  const lines = text.split(/\r\n|\r|\n/);
+
+  let inSupportedSection = false;
+  let inAccountBlock = false;
+  let account: string | null = null;
+  let accountName: string | null = null;
+  let record: QIFRecord | null = null;
+
+  lines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.trimEnd();
+    if (!line.trim()) return;
+
+    if (line.startsWith("!")) {
+      const header = line.slice(1).trim().toLowerCase();
+      if (header === "account") {
+        inAccountBlock = true;
+        accountName = null;
+        inSupportedSection = false;
+      } else if (header.startsWith("type:")) {
+        inSupportedSection = SUPPORTED_TYPES.includes(header.slice(5).trim());
+      } else if (!header.startsWith("option")) {
+        inSupportedSection = false;
+      }
+      record = null;
+      return;
+    }
+
+    const code = line[0];
+    const value = line.slice(1).trim();
+
+    if (inAccountBlock) {
+      if (code === "N") accountName = value;
+      if (code === "^") {
+        inAccountBlock = false;
+        account = accountName;
+      }
+      return;
+    }
+
+    if (!inSupportedSection) return;
+
+    if (code === "^") {
+      if (record) records.push(record);
+      record = null;
+      return;
+    }
+
+    if (!record) record = emptyRecord(lineNumber, account);
+    const lastSplit = record.splits[record.splits.length - 1];
+
+    switch (code) {
+      case "D":
+        record.date = value;
+        break;
+      case "T":
+      case "U":
+        record.amount = value || null;
+        break;
+      case "P":
+        record.payee = value || null;
+        break;
+      case "M":
+        record.memo = value || null;
+        break;
+      case "L":
+        record.category = value || null;
+        break;
+      case "S":
+        record.splits.push({ category: value || null, memo: null, amount: null });
+        break;
+      case "E":
+        if (lastSplit) lastSplit.memo = value || null;
+        break;
+      case "$":
+        if (lastSplit) lastSplit.amount = value || null;
+        break;
+    }
+  });
+
+  if (record) records.push(record);
+
+  // Day-first files are recognized by a date whose first part exceeds 12,
+  // as long as no other date contradicts that with a second part over 12
+  const dateParts = records
+    .map((r) => (r.date ? splitQIFDate(r.date) : null))
+    .filter((parts): parts is QIFDateParts => parts !== null && !parts.yearFirst);
+  const dayFirst = dateParts.some((p) => p.first > 12) && !dateParts.some((p) => p.second > 12);
+
+  const toISODate = (value: string | null): string | null => {
+    const parts = value ? splitQIFDate(value) : null;
+    if (!parts) return null;
+    const swap = dayFirst && !parts.yearFirst;
+    const month = String(swap ? parts.second : parts.first).padStart(2, "0");
+    const day = String(swap ? parts.first : parts.second).padStart(2, "0");
+    const iso = `${parts.year}-${month}-${day}`;
+    return isValidISODate(iso) ? iso : null;
+  };
+
+  // "T-1.234,56" in files from European versions of Quicken
+  const decimalSeparator = inferDecimalSeparator(
+    records.flatMap((r) => [r.amount, ...r.splits.map((s) => s.amount)]).filter((amount): amount is string => !!amount)
+  );
+
+  const transactions: ParsedTransaction[] = [];
+
+  for (const r of records) {
+    const date = toISODate(r.date);
+    if (!date) {
+      errors.push({ line: r.line, message: r.date ? `Unrecognized date "${r.date}"` : "Missing date" });
+      continue;
+    }
+    if (r.amount === null && r.splits.length === 0) {
+      errors.push({ line: r.line, message: "Missing amount" });
+      continue;
+    }
+
+    const parts = r.splits.length > 0
+      ? r.splits.map((s) => ({ category: s.category, memo: s.memo ?? r.memo, amount: s.amount }))
+      : [{ category: r.category, memo: r.memo, amount: r.amount }];
+    const amounts = parts.map((part) => (part.amount ? parseAmount(part.amount, decimalSeparator) : 0));
+    const unreadable = parts.find((_, i) => amounts[i] === null);
+    if (unreadable) {
+      errors.push({ line: r.line, message: `Unrecognized amount "${unreadable.amount}"` });
+      continue;
+    }
+
+    for (const [i, part] of parts.entries()) {
+      const amount = amounts[i];
+      const { category, subcategory, label } = parseQIFCategory(part.category);
+      const note = [r.payee, part.memo && part.memo !== r.payee ? part.memo : null]
+        .filter(Boolean)
+        .join(" - ");
+
+      transactions.push({
+        date,
+        category: category || "Uncategorized",
+        subcategory,
+        income: amount > 0 ? amount : 0,
+        expense: amount < 0 ? -amount : 0,
+        note: note || null,
+        paid_from: r.account,
+        labels: label ? [label] : null,
+      });
+    }
+  }
+
+  if (transactions.length === 0 && errors.length === 0) {
+    errors.push({ line: 1, message: "No !Type:Bank or !Type:CCard transactions found" });
+  }
+
+  return { transactions, errors };
+};
@@ -0,0 +1,55 @@
+// Classifies mapped rows for the import preview: rows that would be new,
+// rows the book already has, and rows that need fixing before they can be
+// inserted.
+
+import { ParsedTransaction } from "./types";
+import { validateTransaction } from "./mapping";
+import { isValidISODate } from "./normalize";
+
+export type ReviewStatus = "new" | "duplicate" | "invalid-date" | "missing-category";
+
+export const REVIEW_STATUSES: { value: ReviewStatus; label: string }[] = [
+  { value: "new", label: "New" },
+  { value: "duplicate", label: "Duplicate" },
+  { value: "invalid-date", label: "Invalid date" },
+  { value: "missing-category", label: "Missing category" },
+];
+
+export interface ReviewRow {
+  id: number;
+  // Source line, when the format has meaningful line numbers
+  line: number | null;
+  transaction: ParsedTransaction;
+  status: ReviewStatus;
+  message: string | null;
+}
+
+export const isInvalidStatus = (status: ReviewStatus): boolean =>
+  status === "invalid-date" || status === "missing-category";
+
+// `duplicates` holds the positions of rows the book already has, as
+// reported by the database
+export const reviewTransactions = (
+  rows: { line: number | null; transaction: ParsedTransaction }[],
+  duplicates: Set<number>
+): ReviewRow[] => {
+  const seenExternalIds = new Set<string>();
+
+  return rows.map(({ line, transaction }, id) => {
+    const problem = validateTransaction(transaction);
+    if (problem) {
+      const status: ReviewStatus = isValidISODate(transaction.date) ? "missing-category" : "invalid-date";
+      return { id, line, transaction, status, message: problem };
+    }
+
+    // A bank id repeated within the file is a duplicate of its first row
+    const repeated = !!transaction.external_id && seenExternalIds.has(transaction.external_id);
+    if (transaction.external_id) seenExternalIds.add(transaction.external_id);
+
+    if (duplicates.has(id) || repeated) {
+      const message = duplicates.has(id) ? "Already in this book" : "Repeats an earlier row of this file";
+      return { id, line, transaction, status: "duplicate", message };
+    }
+    return { id, line, transaction, status: "new", message: null };
+  });
+};
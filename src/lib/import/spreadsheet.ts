@@ -0,0 +1,99 @@
+// Excel workbook (.xlsx / .xls) reading. Each worksheet becomes an
+// ImportTable so it can go through the same column mapping as CSV files.
+// Numeric cells keep their exact value and date-formatted cells are
+// converted from Excel serial numbers, instead of round-tripping through
+// locale-formatted display text.
+
+import type { CellObject, WorkBook, WorkSheet } from "xlsx";
+import { ImportTable, ImportTableRow } from "./types";
+
+export interface WorkbookSheet {
+  name: string;
+  table: ImportTable;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Excel serial dates count days from 1899-12-30 (or 1904-01-01 for workbooks
+// created on old Macs); the fractional part is the time of day.
+export const excelSerialToISODate = (serial: number, date1904 = false): string => {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const date = new Date(epoch + Math.floor(serial) * 86400000);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+const loadXLSX = () => import("xlsx");
+
+type XLSXModule = Awaited<ReturnType<typeof loadXLSX>>;
+
+const readCell = (
+  XLSX: XLSXModule,
+  cell: CellObject | undefined,
+  date1904: boolean
+): { value: string; type: "number" | "date" | "text" } => {
+  if (!cell || cell.v === undefined || cell.v === null || cell.t === "e" || cell.t === "z") {
+    return { value: "", type: "text" };
+  }
+
+  if (cell.t === "n" && typeof cell.v === "number") {
+    if (cell.z && XLSX.SSF.is_date(cell.z)) {
+      return { value: excelSerialToISODate(cell.v, date1904), type: "date" };
+    }
+    return { value: String(cell.v), type: "number" };
+  }
+
+  if (cell.t === "d" && cell.v instanceof Date) {
+    const date = cell.v;
+    return {
+      value: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+      type: "date",
+    };
+  }
+
+  if (cell.t === "b") return { value: cell.v ? "TRUE" : "FALSE", type: "text" };
+
+  return { value: String(cell.v).trim(), type: "text" };
+};
+
+const sheetToTable = (XLSX: XLSXModule, sheet: WorkSheet, date1904: boolean): ImportTable => {
+  if (!sheet["!ref"]) return { headers: [], rows: [] };
+
+  const range = XLSX.utils.decode_range(sheet["!ref"]);
+  let headers: string[] | null = null;
+  const rows: ImportTableRow[] = [];
+
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const fields: string[] = [];
+    const types: ImportTableRow["types"] = [];
+
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const cell = sheet[XLSX.utils.encode_cell({ r, c })] as CellObject | undefined;
+      const { value, type } = readCell(XLSX, cell, date1904);
+      fields.push(value);
+      types.push(type);
+    }
+
+    if (fields.every((field) => field === "")) continue;
+
+    // The first non-empty row holds the column headers
+    if (!headers) {
+      headers = fields;
+      continue;
+    }
+
+    rows.push({ fields, types, line: r + 1 });
+  }
+
+  return { headers: headers ?? [], rows };
+};
+
+export const readWorkbook = async (buffer: ArrayBuffer): Promise<WorkbookSheet[]> => {
+  const XLSX = await loadXLSX();
+  const workbook: WorkBook = XLSX.read(buffer, { type: "array", cellNF: true });
+  const date1904 = !!workbook.Workbook?.WBProps?.date1904;
+
+  return workbook.SheetNames.map((name) => ({
+    name,
+    table: sheetToTable(XLSX, workbook.Sheets[name], date1904),
+  }));
+};
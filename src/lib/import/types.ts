@@ -0,0 +1,54 @@
+// Shared shapes for every import format. Parsers either produce an
+// ImportTable (CSV, spreadsheets) that goes through column mapping, or
+// ParsedTransaction rows directly (bank statement formats).
+
+import { TextEncoding } from "./encoding";
+
+export type CellType = "number" | "date" | "text";
+
+export interface ImportTableRow {
+  fields: string[];
+  // Spreadsheet cells know their type: numbers are plain "1234.5" and dates
+  // are ISO "YYYY-MM-DD" regardless of how the sheet displays them
+  types?: CellType[];
+  // 1-based line (or sheet row) number in the source file
+  line: number;
+}
+
+export interface ImportTable {
+  headers: string[];
+  rows: ImportTableRow[];
+}
+
+export interface ImportRowError {
+  line: number;
+  message: string;
+}
+
+export interface ParsedTransaction {
+  date: string;
+  category: string;
+  subcategory: string | null;
+  income: number;
+  expense: number;
+  note: string | null;
+  paid_from: string | null;
+  labels: string[] | null;
+  // Bank-assigned transaction id (e.g. OFX FITID) used for exact de-duplication
+  external_id?: string | null;
+  // Amount and currency as paid, for transactions in another currency
+  original_currency?: string | null;
+  original_amount?: number | null;
+}
+
+export type ImportSource =
+  | { kind: "table"; table: ImportTable }
+  | { kind: "workbook"; sheets: { name: string; table: ImportTable }[] }
+  | { kind: "statement"; format: string; transactions: ParsedTransaction[] };
+
+export interface ParsedImport {
+  source: ImportSource;
+  errors: ImportRowError[];
+  // How a text file was decoded; spreadsheets carry their own encoding
+  encoding?: TextEncoding;
+}
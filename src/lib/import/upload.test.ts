@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { IMPORT_CHUNK_SIZE, MAX_CHUNK_ATTEMPTS, chunkRows, importInChunks } from "./upload";
+import { ImportRow } from "./fingerprint";
+
+const rows = (count: number): ImportRow[] =>
+  Array.from({ length: count }, (_, i) => ({
+    date: "2024-01-31",
+    category: "Food",
+    subcategory: null,
+    income: 0,
+    expense: i + 1,
+    note: null,
+    paid_from: null,
+    labels: null,
+    occurrence: 1,
+  }));
+
+// Runs an import to completion without waiting out the retry backoff
+const runImport = async (...args: Parameters<typeof importInChunks>) => {
+  const promise = importInChunks(...args);
+  await vi.runAllTimersAsync();
+  return promise;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("chunkRows", () => {
+  it("splits rows into chunks of the import size", () => {
+    expect(chunkRows(rows(1001)).map((chunk) => chunk.length)).toEqual([IMPORT_CHUNK_SIZE, IMPORT_CHUNK_SIZE, 1]);
+    expect(chunkRows([])).toEqual([]);
+  });
+});
+
+describe("importInChunks", () => {
+  it("counts inserted rows and duplicates and reports progress", async () => {
+    const progress: number[] = [];
+    const result = await runImport(
+      rows(600),
+      async (chunk) => chunk.length - 10,
+      (processed) => progress.push(processed)
+    );
+    expect(result).toEqual({ inserted: 580, duplicates: 20, failed: [] });
+    expect(progress).toEqual([0, 500, 600]);
+  });
+
+  it("retries a chunk that fails for a while", async () => {
+    let calls = 0;
+    const result = await runImport(
+      rows(3),
+      async (chunk) => {
+        if (++calls < MAX_CHUNK_ATTEMPTS) throw new Error("Network error");
+        return chunk.length;
+      },
+      () => {}
+    );
+    expect(calls).toBe(MAX_CHUNK_ATTEMPTS);
+    expect(result).toEqual({ inserted: 3, duplicates: 0, failed: [] });
+  });
+
+  it("reports exactly the rows that fail and inserts the rest of their chunk", async () => {
+    const input = rows(IMPORT_CHUNK_SIZE);
+    const bad = new Set([input[7], input[300]]);
+    const result = await runImport(
+      input,
+      async (chunk) => {
+        if (chunk.some((row) => bad.has(row))) throw { message: "numeric field overflow" };
+        return chunk.length;
+      },
+      () => {}
+    );
+    expect(result.inserted).toBe(IMPORT_CHUNK_SIZE - 2);
+    expect(result.failed).toEqual([
+      { row: input[7], message: "numeric field overflow" },
+      { row: input[300], message: "numeric field overflow" },
+    ]);
+  });
+});
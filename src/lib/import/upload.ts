@@ -0,0 +1,99 @@
+// Sends large imports in chunks so a multi-year export neither times out
+// nor fails as a whole. Chunks are retried with backoff; a chunk that still
+// fails is split until the rows that fail on their own are found, so one bad
+// row doesn't take the rest of its chunk down. Those rows are reported and
+// can be sent again later, which is safe since the database skips rows it
+// already has.
+
+import { ImportRow } from "./fingerprint";
+
+export const IMPORT_CHUNK_SIZE = 500;
+
+export const MAX_CHUNK_ATTEMPTS = 3;
+
+const RETRY_DELAY_MS = 1000;
+
+export interface FailedImportRow {
+  row: ImportRow;
+  message: string;
+}
+
+export interface ChunkedImportResult {
+  inserted: number;
+  duplicates: number;
+  failed: FailedImportRow[];
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error
+    ? error.message
+    : typeof error === "object" && error && "message" in error
+      ? String(error.message)
+      : "Unknown error";
+
+export const chunkRows = <T>(rows: T[], size = IMPORT_CHUNK_SIZE): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += size) chunks.push(rows.slice(i, i + size));
+  return chunks;
+};
+
+// Sends the halves of a chunk that failed, once each, halving again
+// whatever fails until single rows are left
+const isolateFailures = async (
+  chunk: ImportRow[],
+  error: unknown,
+  sendChunk: (chunk: ImportRow[]) => Promise<number>,
+  result: ChunkedImportResult
+): Promise<void> => {
+  if (chunk.length === 1) {
+    result.failed.push({ row: chunk[0], message: errorMessage(error) });
+    return;
+  }
+
+  const middle = Math.ceil(chunk.length / 2);
+  for (const half of [chunk.slice(0, middle), chunk.slice(middle)]) {
+    try {
+      const inserted = await sendChunk(half);
+      result.inserted += inserted;
+      result.duplicates += half.length - inserted;
+    } catch (halfError) {
+      await isolateFailures(half, halfError, sendChunk, result);
+    }
+  }
+};
+
+// `sendChunk` inserts one chunk and resolves to the number of rows actually
+// inserted (the rest were duplicates)
+export const importInChunks = async (
+  rows: ImportRow[],
+  sendChunk: (chunk: ImportRow[]) => Promise<number>,
+  onProgress: (processed: number, total: number) => void
+): Promise<ChunkedImportResult> => {
+  const result: ChunkedImportResult = { inserted: 0, duplicates: 0, failed: [] };
+  let processed = 0;
+  onProgress(0, rows.length);
+
+  for (const chunk of chunkRows(rows)) {
+    for (let attempt = 1; attempt <= MAX_CHUNK_ATTEMPTS; attempt++) {
+      try {
+        const inserted = await sendChunk(chunk);
+        result.inserted += inserted;
+        result.duplicates += chunk.length - inserted;
+        break;
+      } catch (error) {
+        if (attempt === MAX_CHUNK_ATTEMPTS) {
+          await isolateFailures(chunk, error, sendChunk, result);
+        } else {
+          await wait(RETRY_DELAY_MS * 2 ** (attempt - 1));
+        }
+      }
+    }
+
+    processed += chunk.length;
+    onProgress(processed, rows.length);
+  }
+
+  return result;
+};
@@ -0,0 +1,96 @@
+// Main-thread side of the import worker. Reading, decoding and parsing a
+// file, and mapping its rows to transactions, run in a Web Worker so large
+// files don't freeze the dashboard. Every task gets its own worker, which
+// makes cancelling a task as simple as terminating it.
+
+import { TextEncoding } from "./encoding";
+import { ParseStage } from "./formats";
+import { ColumnMapping, ImportOptions, MappedRow } from "./mapping";
+import { ImportRowError, ImportTable, ParsedImport } from "./types";
+
+export type WorkerRequest =
+  | { type: "parse"; file: File; encoding: TextEncoding | null }
+  | { type: "map"; table: ImportTable; mapping: ColumnMapping; options: ImportOptions };
+
+export type WorkerResponse =
+  | { type: "progress"; stage: ParseStage; loaded: number; total: number }
+  | { type: "parsed"; result: ParsedImport | null }
+  | { type: "mapped"; rows: MappedRow[]; errors: ImportRowError[]; occurrences: number[] }
+  | { type: "error"; message: string };
+
+export interface MappedImport {
+  rows: MappedRow[];
+  errors: ImportRowError[];
+  // Fingerprint occurrence number of each row, see numberOccurrences
+  occurrences: number[];
+}
+
+export interface WorkerTask<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+export const isCancelled = (error: unknown): boolean =>
+  error instanceof Error && error.name === "AbortError";
+
+const runTask = <T>(
+  request: WorkerRequest,
+  handle: (response: WorkerResponse, resolve: (value: T) => void) => void
+): WorkerTask<T> => {
+  const worker = new Worker(new URL("./import.worker.ts", import.meta.url), { type: "module" });
+  let rejectTask: (error: Error) => void = () => {};
+
+  const promise = new Promise<T>((resolve, reject) => {
+    rejectTask = reject;
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      if (event.data.type === "error") {
+        worker.terminate();
+        reject(new Error(event.data.message));
+        return;
+      }
+      handle(event.data, (value) => {
+        worker.terminate();
+        resolve(value);
+      });
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "Import worker failed"));
+    };
+  });
+
+  worker.postMessage(request);
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      const error = new Error("Import cancelled");
+      error.name = "AbortError";
+      rejectTask(error);
+    },
+  };
+};
+
+// Without an encoding, the worker detects it
+export const parseFileInBackground = (
+  file: File,
+  encoding: TextEncoding | null,
+  onProgress: (stage: ParseStage, loaded: number, total: number) => void
+): WorkerTask<ParsedImport | null> =>
+  runTask({ type: "parse", file, encoding }, (response, resolve) => {
+    if (response.type === "progress") onProgress(response.stage, response.loaded, response.total);
+    if (response.type === "parsed") resolve(response.result);
+  });
+
+export const mapRowsInBackground = (
+  table: ImportTable,
+  mapping: ColumnMapping,
+  options: ImportOptions
+): WorkerTask<MappedImport> =>
+  runTask({ type: "map", table, mapping, options }, (response, resolve) => {
+    if (response.type === "mapped") {
+      resolve({ rows: response.rows, errors: response.errors, occurrences: response.occurrences });
+    }
+  });
@@ -0,0 +1,57 @@
+// Minimal XML element scanning for statement formats. Works without
+// DOMParser (which is unavailable in some environments) and tolerates
+// namespace prefixes such as <ns2:Ntry> and attributes such as <Amt Ccy="EUR">.
+// Elements nested inside an element of the same name are not supported.
+
+export interface XMLElement {
+  body: string;
+  attributes: string;
+  // Offset of the element's body within the scanned text
+  offset: number;
+}
+
+const escapeTag = (tag: string): string => tag.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const decodeXMLEntities = (value: string): string =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, "&");
+
+export const findElements = (xml: string, tag: string): XMLElement[] => {
+  const name = `(?:[\\w-]+:)?${escapeTag(tag)}`;
+  const pattern = new RegExp(`<(${name})(\\s[^>]*)?>([\\s\\S]*?)</\\1\\s*>`, "g");
+  const elements: XMLElement[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    const openTagLength = match[1].length + (match[2] || "").length + 2;
+    elements.push({
+      body: match[3],
+      attributes: match[2] || "",
+      offset: match.index + openTagLength,
+    });
+  }
+  return elements;
+};
+
+// Follows a path of nested tags and returns the first match's text content
+export const findText = (xml: string, ...path: string[]): string | null => {
+  let current = xml;
+  for (const tag of path) {
+    const [element] = findElements(current, tag);
+    if (!element) return null;
+    current = element.body;
+  }
+  const value = decodeXMLEntities(current).trim();
+  return value || null;
+};
+
+export const findAllText = (xml: string, tag: string): string[] =>
+  findElements(xml, tag)
+    .map((element) => decodeXMLEntities(element.body).trim())
+    .filter(Boolean);
@@ -0,0 +1,52 @@
+// Amounts in a book's currency, formatted for the user's locale. The symbol
+// and where it goes, digit grouping and the currency's own number of minor
+// digits (two for USD, none for JPY) all come from Intl.NumberFormat.
+
+export type MoneyFormatter = (value: number) => string;
+
+export interface MoneyFormatOptions {
+  // "compact" gives short chart axis labels such as "$1.2K"
+  notation?: "standard" | "compact";
+  // Overrides the currency's minor digits
+  fractionDigits?: number;
+}
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const numberFormat = (currency: string, { notation = "standard", fractionDigits }: MoneyFormatOptions) => {
+  const key = `${currency}|${notation}|${fractionDigits ?? ""}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    const digits =
+      fractionDigits !== undefined
+        ? { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits }
+        : notation === "compact"
+          ? { minimumFractionDigits: 0, maximumFractionDigits: 1 }
+          : {};
+    try {
+      formatter = new Intl.NumberFormat(undefined, { style: "currency", currency, notation, ...digits });
+    } catch {
+      // Not a currency code Intl accepts: a plain number with two decimals
+      formatter = new Intl.NumberFormat(undefined, {
+        notation,
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+        ...digits,
+      });
+    }
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+export const moneyFormatter = (currency: string, options: MoneyFormatOptions = {}): MoneyFormatter => {
+  const formatter = numberFormat(currency, options);
+  return (value) => formatter.format(value);
+};
+
+export const formatMoney = (value: number, currency: string, options?: MoneyFormatOptions): string =>
+  moneyFormatter(currency, options)(value);
+
+// Digits after the decimal point: 2 for USD, 0 for JPY
+export const currencyDigits = (currency: string): number =>
+  numberFormat(currency, {}).resolvedOptions().maximumFractionDigits;
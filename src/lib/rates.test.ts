@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { Transaction } from "@/pages/Dashboard";
+import { buildRateTable, convertTransactions, isForeign, parseRatesCSV, rateOn } from "./rates";
+
+const table = buildRateTable([
+  { base_currency: "usd", quote_currency: "EUR", date: "2024-02-01", rate: 0.9 },
+  { base_currency: "USD", quote_currency: "EUR", date: "2024-01-01", rate: 0.8 },
+  { base_currency: "EUR", quote_currency: "JPY", date: "2024-01-01", rate: 160 },
+  { base_currency: "GBP", quote_currency: "GBP", date: "2024-01-01", rate: 2 },
+  { base_currency: "CHF", quote_currency: "EUR", date: "2024-01-01", rate: 0 },
+]);
+
+const transaction = (overrides: Partial<Transaction>): Transaction => ({
+  id: "t1",
+  book_id: "b1",
+  date: "2024-01-15",
+  category: "Travel",
+  subcategory: null,
+  income: 0,
+  expense: 10,
+  note: null,
+  paid_from: null,
+  labels: null,
+  external_id: null,
+  original_currency: null,
+  original_amount: null,
+  import_batch_id: null,
+  fingerprint: null,
+  created_at: "2024-01-15T00:00:00Z",
+  updated_at: "2024-01-15T00:00:00Z",
+  ...overrides,
+});
+
+describe("buildRateTable", () => {
+  it("keeps valid pairs, oldest first", () => {
+    expect([...table.keys()]).toEqual(["USD/EUR", "EUR/JPY"]);
+    expect(table.get("USD/EUR")?.map((point) => point.date)).toEqual(["2024-01-01", "2024-02-01"]);
+  });
+});
+
+describe("rateOn", () => {
+  it("uses the latest rate on or before the date", () => {
+    expect(rateOn(table, "USD", "EUR", "2024-01-31")).toBe(0.8);
+    expect(rateOn(table, "USD", "EUR", "2024-02-01")).toBe(0.9);
+    expect(rateOn(table, "USD", "EUR", "2025-01-01")).toBe(0.9);
+  });
+
+  it("uses the earliest rate before the table starts", () => {
+    expect(rateOn(table, "USD", "EUR", "2023-06-01")).toBe(0.8);
+  });
+
+  it("inverts the opposite pair", () => {
+    expect(rateOn(table, "JPY", "eur", "2024-01-15")).toBe(1 / 160);
+  });
+
+  it("knows a currency's rate to itself only", () => {
+    expect(rateOn(table, "EUR", "EUR", "2024-01-15")).toBe(1);
+    expect(rateOn(table, "CHF", "EUR", "2024-01-15")).toBeNull();
+  });
+});
+
+describe("isForeign", () => {
+  it("needs another currency and an original amount", () => {
+    expect(isForeign({ original_currency: "USD", original_amount: 10 }, "EUR")).toBe(true);
+    expect(isForeign({ original_currency: "eur", original_amount: 10 }, "EUR")).toBe(false);
+    expect(isForeign({ original_currency: "USD", original_amount: null }, "EUR")).toBe(false);
+    expect(isForeign({ original_currency: null, original_amount: null }, "EUR")).toBe(false);
+  });
+});
+
+describe("convertTransactions", () => {
+  it("converts foreign amounts into the book's currency, rounded to its digits", () => {
+    const { transactions, missingRates } = convertTransactions(
+      [
+        transaction({ original_currency: "USD", original_amount: 12.34, expense: 9 }),
+        transaction({ original_currency: "EUR", original_amount: 3.33, income: 500, expense: 0 }),
+      ],
+      "JPY",
+      table
+    );
+    // There is no rate between USD and JPY, even through EUR
+    expect(missingRates).toBe(1);
+    expect(transactions.map((t) => [t.income, t.expense])).toEqual([
+      [0, 9],
+      [533, 0],
+    ]);
+  });
+
+  it("counts foreign transactions it had to leave as saved", () => {
+    const saved = transaction({ original_currency: "CHF", original_amount: 10, expense: 11 });
+    const { transactions, missingRates } = convertTransactions(
+      [saved, transaction({ original_currency: "USD", original_amount: 10 })],
+      "EUR",
+      table
+    );
+    expect(missingRates).toBe(1);
+    expect(transactions[0]).toBe(saved);
+    expect(transactions[1].expense).toBe(8);
+  });
+});
+
+describe("parseRatesCSV", () => {
+  const pair = { base_currency: "usd", quote_currency: "eur" };
+
+  it("reads date and rate columns for a single pair", () => {
+    const { rates, errors } = parseRatesCSV("Date;Close\n31.01.2024;0,92\n01.02.2024;0,93\n", pair);
+    expect(errors).toEqual([]);
+    expect(rates).toEqual([
+      { base_currency: "USD", quote_currency: "EUR", date: "2024-01-31", rate: 0.92 },
+      { base_currency: "USD", quote_currency: "EUR", date: "2024-02-01", rate: 0.93 },
+    ]);
+  });
+
+  it("reads the pair from columns and keeps the last rate of a day", () => {
+    const { rates } = parseRatesCSV(
+      "date,from,to,rate\n2024-01-31,GBP,EUR,1.16\n2024-01-31,GBP,EUR,1.17\n2024-01-31,USD,EUR,0.92\n",
+      pair
+    );
+    expect(rates).toEqual([
+      { base_currency: "GBP", quote_currency: "EUR", date: "2024-01-31", rate: 1.17 },
+      { base_currency: "USD", quote_currency: "EUR", date: "2024-01-31", rate: 0.92 },
+    ]);
+  });
+
+  it("reports rows it can't read", () => {
+    const { rates, errors } = parseRatesCSV(
+      "date,from,to,rate\nsoon,USD,EUR,1\n2024-01-31,USD,EUR,-1\n2024-01-31,USD,USD,1\n",
+      pair
+    );
+    expect(rates).toEqual([]);
+    expect(errors).toEqual([
+      { line: 2, message: 'Unrecognized date "soon"' },
+      { line: 3, message: 'Unrecognized rate "-1"' },
+      { line: 4, message: 'Unrecognized currency pair "USD/USD"' },
+    ]);
+  });
+
+  it("needs date and rate columns", () => {
+    expect(parseRatesCSV("day,amount\n", pair).errors).toEqual([
+      { line: 1, message: "Expected a header row with date and rate columns" },
+    ]);
+  });
+});
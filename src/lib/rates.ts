@@ -0,0 +1,166 @@
+// Exchange rates the user maintains, and conversion of foreign-currency
+// transactions into the book's currency. A transaction is converted with the
+// latest rate on or before its date, or the earliest one when the table
+// starts later; the inverse pair is used when only that one is known.
+// Transactions without a usable rate keep the book amounts they were saved
+// with.
+
+import { Transaction } from "@/pages/Dashboard";
+import { currencyDigits } from "./money";
+import { parseCSV } from "./import/csv";
+import { inferDateFormat, inferDecimalSeparator, isValidISODate, normalizeDate, parseAmount } from "./import/normalize";
+import { ImportRowError } from "./import/types";
+
+export interface ExchangeRate {
+  id: string;
+  // One unit of base_currency is worth `rate` units of quote_currency
+  base_currency: string;
+  quote_currency: string;
+  date: string;
+  rate: number;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export type RateInput = Pick<ExchangeRate, "base_currency" | "quote_currency" | "date" | "rate">;
+
+interface RatePoint {
+  date: string;
+  rate: number;
+}
+
+// Rates by "BASE/QUOTE", oldest first
+export type RateTable = Map<string, RatePoint[]>;
+
+const pairKey = (base: string, quote: string) => `${base}/${quote}`;
+
+export const normalizeCurrency = (code: string): string => code.trim().toUpperCase();
+
+export const isCurrencyCode = (code: string): boolean => /^[A-Z]{3}$/.test(normalizeCurrency(code));
+
+export const buildRateTable = (rates: RateInput[]): RateTable => {
+  const table: RateTable = new Map();
+  for (const r of rates) {
+    const base = normalizeCurrency(r.base_currency);
+    const quote = normalizeCurrency(r.quote_currency);
+    if (base === quote || !(r.rate > 0)) continue;
+    const key = pairKey(base, quote);
+    if (!table.has(key)) table.set(key, []);
+    table.get(key)!.push({ date: r.date, rate: Number(r.rate) });
+  }
+  for (const points of table.values()) points.sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+  return table;
+};
+
+const rateAt = (points: RatePoint[], date: string): number => {
+  let found = points[0];
+  for (const point of points) {
+    if (point.date > date) break;
+    found = point;
+  }
+  return found.rate;
+};
+
+// Units of `to` per unit of `from` on the given date, or null when unknown
+export const rateOn = (table: RateTable, from: string, to: string, date: string): number | null => {
+  const base = normalizeCurrency(from);
+  const quote = normalizeCurrency(to);
+  if (base === quote) return 1;
+  const direct = table.get(pairKey(base, quote));
+  if (direct) return rateAt(direct, date);
+  const inverse = table.get(pairKey(quote, base));
+  if (inverse) return 1 / rateAt(inverse, date);
+  return null;
+};
+
+export const isForeign = (
+  t: Pick<Transaction, "original_currency" | "original_amount">,
+  bookCurrency: string
+): boolean =>
+  !!t.original_currency &&
+  t.original_amount !== null &&
+  t.original_amount !== undefined &&
+  normalizeCurrency(t.original_currency) !== normalizeCurrency(bookCurrency);
+
+export interface ConvertedTransactions {
+  transactions: Transaction[];
+  // Foreign-currency transactions that kept their saved book amounts
+  // because no rate is known for their currency
+  missingRates: number;
+}
+
+export const convertTransactions = (
+  transactions: Transaction[],
+  bookCurrency: string,
+  table: RateTable
+): ConvertedTransactions => {
+  const factor = 10 ** currencyDigits(bookCurrency);
+  let missingRates = 0;
+
+  const converted = transactions.map((t) => {
+    if (!isForeign(t, bookCurrency)) return t;
+    const rate = rateOn(table, t.original_currency, bookCurrency, t.date);
+    if (rate === null) {
+      missingRates++;
+      return t;
+    }
+    const amount = Math.round(Math.abs(t.original_amount) * rate * factor) / factor;
+    return t.income > 0 ? { ...t, income: amount, expense: 0 } : { ...t, income: 0, expense: amount };
+  });
+
+  return { transactions: converted, missingRates };
+};
+
+const HEADER_WORDS: [keyof RateInput, string[]][] = [
+  ["date", ["date", "day"]],
+  ["base_currency", ["from", "base", "source"]],
+  ["quote_currency", ["to", "quote", "target"]],
+  ["rate", ["rate", "close", "value", "price"]],
+];
+
+// Historical rates as CSV with a header row: date, from, to and rate
+// columns. Files with only date and rate columns (as most published rate
+// series are) take the currencies from `pair`.
+export const parseRatesCSV = (
+  text: string,
+  pair: { base_currency: string; quote_currency: string }
+): { rates: RateInput[]; errors: ImportRowError[] } => {
+  const { headers, rows, errors: csvErrors } = parseCSV(text);
+  const columns = Object.fromEntries(
+    HEADER_WORDS.map(([field, words]) => [
+      field,
+      headers.findIndex((header) => header.toLowerCase().split(/[^a-z]+/).some((word) => words.includes(word))),
+    ])
+  ) as Record<keyof RateInput, number>;
+
+  if (columns.date < 0 || columns.rate < 0) {
+    return { rates: [], errors: [{ line: 1, message: "Expected a header row with date and rate columns" }] };
+  }
+
+  // A later row for the same pair and day replaces an earlier one
+  const rates = new Map<string, RateInput>();
+  const errors: ImportRowError[] = [...csvErrors];
+  const { format: dateFormat } = inferDateFormat(rows.map((row) => (row.fields[columns.date] || "").trim()));
+  const decimalSeparator = inferDecimalSeparator(rows.map((row) => row.fields[columns.rate] || ""));
+  for (const row of rows) {
+    const field = (column: number) => (column >= 0 ? (row.fields[column] || "").trim() : "");
+    if (row.fields.every((value) => !value.trim())) continue;
+
+    const date = normalizeDate(field(columns.date), dateFormat);
+    const rate = parseAmount(field(columns.rate), decimalSeparator);
+    const base = normalizeCurrency(field(columns.base_currency) || pair.base_currency);
+    const quote = normalizeCurrency(field(columns.quote_currency) || pair.quote_currency);
+
+    if (!isValidISODate(date)) {
+      errors.push({ line: row.line, message: `Unrecognized date "${field(columns.date)}"` });
+    } else if (rate === null || rate <= 0) {
+      errors.push({ line: row.line, message: `Unrecognized rate "${field(columns.rate)}"` });
+    } else if (!isCurrencyCode(base) || !isCurrencyCode(quote) || base === quote) {
+      errors.push({ line: row.line, message: `Unrecognized currency pair "${base}/${quote}"` });
+    } else {
+      rates.set(`${pairKey(base, quote)}|${date}`, { base_currency: base, quote_currency: quote, date, rate });
+    }
+  }
+
+  return { rates: [...rates.values()], errors };
+};
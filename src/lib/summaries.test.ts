@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { Transaction } from "@/pages/Dashboard";
+import {
+  expensesByCategory,
+  expensesByMonth,
+  expensesBySubcategory,
+  periodContaining,
+  previousPeriod,
+  transactionsInPeriod,
+} from "./summaries";
+
+const transaction = (
+  date: string,
+  category: string,
+  expense: number,
+  overrides: Partial<Transaction> = {}
+): Transaction => ({
+  id: `${date}-${category}-${expense}`,
+  book_id: "book-1",
+  date,
+  category,
+  subcategory: null,
+  income: 0,
+  expense,
+  note: null,
+  paid_from: null,
+  labels: null,
+  external_id: null,
+  original_currency: null,
+  original_amount: null,
+  import_batch_id: null,
+  fingerprint: null,
+  created_at: "2024-01-31T10:00:00Z",
+  updated_at: "2024-01-31T10:00:00Z",
+  ...overrides,
+});
+
+const transactions = [
+  transaction("2024-01-05", "Food", 10.1, { subcategory: "Groceries" }),
+  transaction("2024-01-20", "Rent", 800),
+  transaction("2024-02-01", "Food", 20.2, { subcategory: "Restaurants" }),
+  transaction("2024-02-29", "Food", 0, { income: 50 }),
+  transaction("2023-12-31", "Food", 5, { subcategory: "Groceries" }),
+];
+
+describe("expensesByCategory", () => {
+  it("totals expenses per category, largest first", () => {
+    expect(expensesByCategory(transactions)).toEqual([
+      { name: "Rent", value: 800 },
+      { name: "Food", value: 35.3 },
+    ]);
+  });
+});
+
+describe("expensesBySubcategory", () => {
+  it("totals the subcategories of one category", () => {
+    expect(expensesBySubcategory(transactions, "Food")).toEqual([
+      { name: "Restaurants", value: 20.2 },
+      { name: "Groceries", value: 15.1 },
+    ]);
+    expect(expensesBySubcategory(transactions, "Rent")).toEqual([]);
+  });
+});
+
+describe("expensesByMonth", () => {
+  it("totals each month by category, oldest first", () => {
+    const months = expensesByMonth(transactions).map(({ month, total, categories }) => ({ month, total, categories }));
+    expect(months).toEqual([
+      { month: "Dec 2023", total: 5, categories: { Food: 5 } },
+      { month: "Jan 2024", total: 810.1, categories: { Food: 10.1, Rent: 800 } },
+      { month: "Feb 2024", total: 20.2, categories: { Food: 20.2 } },
+    ]);
+  });
+});
+
+describe("periods", () => {
+  it("finds the period before, across year ends", () => {
+    const january = periodContaining("monthly", new Date(2024, 0, 15));
+    expect(previousPeriod(january)).toEqual({
+      unit: "monthly",
+      start: new Date(2023, 11, 1),
+      end: new Date(2023, 11, 31, 23, 59, 59, 999),
+    });
+    // Weeks start on Sunday
+    expect(periodContaining("weekly", new Date(2024, 0, 3)).start).toEqual(new Date(2023, 11, 31));
+  });
+
+  it("includes transactions on the first and last day", () => {
+    const january = periodContaining("monthly", new Date(2024, 0, 15));
+    expect(transactionsInPeriod(transactions, january).map((t) => t.date)).toEqual(["2024-01-05", "2024-01-20"]);
+    const year = periodContaining("yearly", new Date(2024, 5, 1));
+    expect(transactionsInPeriod(transactions, year)).toHaveLength(4);
+    expect(transactionsInPeriod(transactions, previousPeriod(year)).map((t) => t.date)).toEqual(["2023-12-31"]);
+  });
+});
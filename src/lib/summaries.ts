@@ -0,0 +1,131 @@
+// Expense totals behind the dashboard charts. The exports use the same
+// functions, so a report always shows the numbers the charts do.
+
+import {
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  endOfYear,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+  subMonths,
+  subWeeks,
+  subYears,
+} from "date-fns";
+import { Transaction } from "@/pages/Dashboard";
+
+export interface CategoryTotal {
+  name: string;
+  value: number;
+}
+
+export interface MonthTotal {
+  // "Jan 2026"
+  month: string;
+  total: number;
+  categories: Record<string, number>;
+  sortDate: Date;
+}
+
+// Parses the date as a local date (YYYY-MM-DD format from the database)
+export const transactionDate = (t: Transaction): Date => {
+  const [year, month, day] = t.date.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const sortedTotals = (grouped: Record<string, number>): CategoryTotal[] =>
+  Object.entries(grouped)
+    .map(([name, value]) => ({
+      name,
+      value: Number(value.toFixed(2)),
+    }))
+    .sort((a, b) => b.value - a.value);
+
+// Expenses per category, largest first
+export const expensesByCategory = (transactions: Transaction[]): CategoryTotal[] => {
+  const grouped: Record<string, number> = {};
+  transactions.forEach((t) => {
+    if (t.expense > 0) {
+      grouped[t.category] = (grouped[t.category] || 0) + t.expense;
+    }
+  });
+  return sortedTotals(grouped);
+};
+
+// Expenses per subcategory, of one category or of all of them
+export const expensesBySubcategory = (transactions: Transaction[], category: string | null): CategoryTotal[] => {
+  const grouped: Record<string, number> = {};
+  const transactionsToUse = category ? transactions.filter((t) => t.category === category) : transactions;
+
+  transactionsToUse.forEach((t) => {
+    if (t.expense > 0 && t.subcategory) {
+      grouped[t.subcategory] = (grouped[t.subcategory] || 0) + t.expense;
+    }
+  });
+  return sortedTotals(grouped);
+};
+
+// Expenses per month, split by category, oldest month first
+export const expensesByMonth = (transactions: Transaction[]): MonthTotal[] => {
+  const monthlyExpenses: Record<string, Record<string, number>> = {};
+
+  transactions.forEach((t) => {
+    if (t.expense > 0) {
+      const monthKey = format(transactionDate(t), "MMM yyyy");
+      if (!monthlyExpenses[monthKey]) {
+        monthlyExpenses[monthKey] = {};
+      }
+      monthlyExpenses[monthKey][t.category] = (monthlyExpenses[monthKey][t.category] || 0) + t.expense;
+    }
+  });
+
+  return Object.entries(monthlyExpenses)
+    .map(([month, categories]) => ({
+      month,
+      total: Number(Object.values(categories).reduce((sum, val) => sum + val, 0).toFixed(2)),
+      categories,
+      sortDate: new Date(month + " 01"),
+    }))
+    .sort((a, b) => a.sortDate.getTime() - b.sortDate.getTime());
+};
+
+export type PeriodUnit = "weekly" | "monthly" | "yearly";
+
+// A period the chart controls can select
+export interface Period {
+  unit: PeriodUnit;
+  start: Date;
+  end: Date;
+}
+
+export const periodContaining = (unit: PeriodUnit, date: Date): Period => {
+  if (unit === "weekly") {
+    return { unit, start: startOfWeek(date, { weekStartsOn: 0 }), end: endOfWeek(date, { weekStartsOn: 0 }) };
+  } else if (unit === "monthly") {
+    return { unit, start: startOfMonth(date), end: endOfMonth(date) };
+  }
+  return { unit, start: startOfYear(date), end: endOfYear(date) };
+};
+
+// The week, month or year before
+export const previousPeriod = (period: Period): Period => {
+  const date =
+    period.unit === "weekly"
+      ? subWeeks(period.start, 1)
+      : period.unit === "monthly"
+        ? subMonths(period.start, 1)
+        : subYears(period.start, 1);
+  return periodContaining(period.unit, date);
+};
+
+export const transactionsInPeriod = (transactions: Transaction[], period: Period): Transaction[] => {
+  const rangeStart = startOfDay(period.start);
+  const rangeEnd = endOfDay(period.end);
+  return transactions.filter((t) => {
+    const date = transactionDate(t);
+    return date >= rangeStart && date <= rangeEnd;
+  });
+};
@@ -0,0 +1,24 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Transaction } from "@/pages/Dashboard";
+
+const PAGE_SIZE = 1000;
+
+// The dashboard only loads the first page of a large book, so exports,
+// backups and the duplicate review read every page themselves
+export const fetchBookTransactions = async (bookId: string): Promise<Transaction[]> => {
+  const transactions: Transaction[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("*")
+      .eq("book_id", bookId)
+      .order("date")
+      .order("created_at")
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    transactions.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return transactions;
+  }
+};
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { User } from "@supabase/supabase-js";
@@ -8,11 +8,14 @@ import BookSelector from "@/components/dashboard/BookSelector";
 import UploadSection from "@/components/dashboard/UploadSection";
 import ChartSection from "@/components/dashboard/ChartSection";
 import TransactionsTable from "@/components/dashboard/TransactionsTable";
+import { ExchangeRate, buildRateTable } from "@/lib/rates";
 
 export interface Book {
   id: string;
   name: string;
   currency: string;
+  // Id of the backed-up book this one was recreated from by a restore
+  restored_from: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -28,10 +31,19 @@ export interface Transaction {
   expense: number;
   note: string | null;
   labels: string[] | null;
+  external_id: string | null;
+  // Set when the transaction was paid in another currency; income and
+  // expense hold the amount in the book's currency
+  original_currency: string | null;
+  original_amount: number | null;
+  import_batch_id: string | null;
+  fingerprint: string | null;
   created_at: string;
   updated_at: string;
 }
 
+const RATES_PAGE_SIZE = 1000;
+
 const Dashboard = () => {
   const navigate = useNavigate();
   const [user, setUser] = useState<User | null>(null);
@@ -39,6 +51,8 @@ const Dashboard = () => {
   const [selectedBook, setSelectedBook] = useState<Book | null>(null);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [filteredTransactions, setFilteredTransactions] = useState<Transaction[]>([]);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const rateTable = useMemo(() => buildRateTable(rates), [rates]);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -66,6 +80,7 @@ const Dashboard = () => {
   useEffect(() => {
     if (user) {
       loadBooks();
+      loadRates();
     }
   }, [user]);
 
@@ -112,6 +127,29 @@ const Dashboard = () => {
     }
   };
 
+  // Rates are shared by all books. Historical rate tables easily exceed one
+  // page, so every page is read.
+  const loadRates = async () => {
+    try {
+      const loaded: ExchangeRate[] = [];
+      for (let from = 0; ; from += RATES_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("exchange_rates")
+          .select("*")
+          .order("date")
+          .order("id")
+          .range(from, from + RATES_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        loaded.push(...(data || []));
+        if (!data || data.length < RATES_PAGE_SIZE) break;
+      }
+      setRates(loaded);
+    } catch (error) {
+      toast.error("Failed to load exchange rates");
+    }
+  };
+
   const handleSignOut = async () => {
     try {
       await supabase.auth.signOut();
@@ -205,12 +243,14 @@ const Dashboard = () => {
           onSelectBook={setSelectedBook}
           onCreateBook={handleCreateBook}
           onDeleteBook={handleDeleteBook}
+          onRestored={loadBooks}
         />
 
         {selectedBook && (
           <>
             <UploadSection
               bookId={selectedBook.id}
+              currency={selectedBook.currency}
               userId={user?.id || ""}
               onUploadComplete={handleUploadComplete}
             />
@@ -218,11 +258,17 @@ const Dashboard = () => {
             {transactions.length > 0 && (
               <>
                 <ChartSection 
+                  book={selectedBook}
                   transactions={transactions} 
+                  rates={rates}
+                  rateTable={rateTable}
+                  onRatesChange={loadRates}
                   onFilterChange={setFilteredTransactions}
                 />
                 <TransactionsTable
                   transactions={filteredTransactions}
+                  currency={selectedBook.currency}
+                  rateTable={rateTable}
                   onUpdate={handleUploadComplete}
                 />
               </>
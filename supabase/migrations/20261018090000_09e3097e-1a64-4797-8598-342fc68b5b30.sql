@@ -0,0 +1,42 @@
+-- Saved column mappings and parsing options for recurring bank exports
+CREATE TABLE public.import_profiles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL,
+  book_id UUID REFERENCES public.books(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  header_signature TEXT NOT NULL,
+  column_mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  date_format TEXT NOT NULL DEFAULT 'auto',
+  decimal_separator TEXT NOT NULL DEFAULT '.',
+  sign_convention TEXT NOT NULL DEFAULT 'negative-expense',
+  default_category TEXT,
+  default_paid_from TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.import_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own import profiles"
+  ON public.import_profiles FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own import profiles"
+  ON public.import_profiles FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own import profiles"
+  ON public.import_profiles FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own import profiles"
+  ON public.import_profiles FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_import_profiles_updated_at
+  BEFORE UPDATE ON public.import_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_import_profiles_user_id ON public.import_profiles(user_id);
+CREATE INDEX idx_import_profiles_header_signature ON public.import_profiles(header_signature);
@@ -0,0 +1,6 @@
+-- Bank-assigned transaction ids (e.g. OFX FITID) for exact de-duplication
+ALTER TABLE public.transactions ADD COLUMN external_id TEXT;
+
+CREATE UNIQUE INDEX idx_transactions_book_external_id
+  ON public.transactions(book_id, external_id)
+  WHERE external_id IS NOT NULL;
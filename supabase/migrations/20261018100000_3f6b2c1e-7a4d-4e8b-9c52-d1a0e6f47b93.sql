@@ -0,0 +1,48 @@
+-- One row per file upload so a whole import can be reviewed or rolled back
+CREATE TABLE public.import_batches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL,
+  book_id UUID NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+  profile_id UUID REFERENCES public.import_profiles(id) ON DELETE SET NULL,
+  file_name TEXT NOT NULL,
+  file_hash TEXT NOT NULL,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  imported_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  rolled_back_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own import batches"
+  ON public.import_batches FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own import batches"
+  ON public.import_batches FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own import batches"
+  ON public.import_batches FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own import batches"
+  ON public.import_batches FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_import_batches_updated_at
+  BEFORE UPDATE ON public.import_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_import_batches_book_id ON public.import_batches(book_id);
+CREATE INDEX idx_import_batches_file_hash ON public.import_batches(file_hash);
+
+-- Transactions remember the upload they came from
+ALTER TABLE public.transactions
+  ADD COLUMN import_batch_id UUID REFERENCES public.import_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_transactions_import_batch_id ON public.transactions(import_batch_id);
@@ -0,0 +1,188 @@
+-- Normalized transaction fingerprint, unique per book, so duplicate imports
+-- are rejected by the database instead of by a client-side scan of the book.
+-- Bank ids win when present; otherwise the fields are normalized and hashed.
+-- Identical rows (two coffees on the same day) are told apart by an
+-- occurrence number: the n-th identical row of a file gets "#n".
+CREATE OR REPLACE FUNCTION public.transaction_fingerprint(
+  _date DATE,
+  _category TEXT,
+  _subcategory TEXT,
+  _income NUMERIC,
+  _expense NUMERIC,
+  _note TEXT,
+  _external_id TEXT,
+  _occurrence INTEGER DEFAULT 1
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _external_id IS NOT NULL THEN 'ext:' || _external_id
+    ELSE md5(concat_ws('|',
+      _date::text,
+      lower(btrim(_category)),
+      lower(btrim(coalesce(_subcategory, ''))),
+      round(coalesce(_income, 0), 2)::text,
+      round(coalesce(_expense, 0), 2)::text,
+      lower(regexp_replace(btrim(coalesce(_note, '')), '\s+', ' ', 'g'))
+    )) || '#' || _occurrence
+  END;
+$$;
+
+ALTER TABLE public.transactions ADD COLUMN fingerprint TEXT;
+
+-- Existing identical rows get consecutive occurrence numbers. The backfill
+-- is not an edit, so it leaves updated_at alone.
+ALTER TABLE public.transactions DISABLE TRIGGER update_transactions_updated_at;
+
+UPDATE public.transactions AS t
+SET fingerprint = numbered.fingerprint
+FROM (
+  SELECT
+    id,
+    public.transaction_fingerprint(
+      date, category, subcategory, income, expense, note, external_id,
+      (row_number() OVER (
+        PARTITION BY book_id, public.transaction_fingerprint(date, category, subcategory, income, expense, note, external_id)
+        ORDER BY created_at, id
+      ))::integer
+    ) AS fingerprint
+  FROM public.transactions
+) AS numbered
+WHERE t.id = numbered.id;
+
+ALTER TABLE public.transactions ENABLE TRIGGER update_transactions_updated_at;
+
+CREATE UNIQUE INDEX idx_transactions_book_fingerprint
+  ON public.transactions(book_id, fingerprint);
+
+-- Rows inserted or edited outside of import_transactions take the first free
+-- occurrence, so manual entries and edits never collide
+CREATE OR REPLACE FUNCTION public.set_transaction_fingerprint()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  occurrence INTEGER := 1;
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.fingerprint IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.fingerprint IS NOT DISTINCT FROM OLD.fingerprint
+    AND (NEW.book_id, NEW.date, NEW.category, NEW.subcategory, NEW.income, NEW.expense, NEW.note, NEW.external_id)
+      IS NOT DISTINCT FROM
+      (OLD.book_id, OLD.date, OLD.category, OLD.subcategory, OLD.income, OLD.expense, OLD.note, OLD.external_id)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  LOOP
+    NEW.fingerprint := transaction_fingerprint(
+      NEW.date, NEW.category, NEW.subcategory, NEW.income, NEW.expense, NEW.note, NEW.external_id, occurrence
+    );
+    EXIT WHEN NEW.external_id IS NOT NULL OR NOT EXISTS (
+      SELECT 1 FROM transactions
+      WHERE book_id = NEW.book_id AND fingerprint = NEW.fingerprint AND id <> NEW.id
+    );
+    occurrence := occurrence + 1;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_transactions_fingerprint
+  BEFORE INSERT OR UPDATE ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_transaction_fingerprint();
+
+-- Fingerprints of a JSON array of transactions as sent by the importer,
+-- together with each element's position in the array
+CREATE OR REPLACE FUNCTION public.import_fingerprints(_transactions JSONB)
+RETURNS TABLE (row_index INTEGER, fingerprint TEXT)
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT
+    (e.ord - 1)::integer,
+    transaction_fingerprint(
+      (e.t->>'date')::date,
+      coalesce(e.t->>'category', 'Uncategorized'),
+      e.t->>'subcategory',
+      coalesce((e.t->>'income')::numeric, 0),
+      coalesce((e.t->>'expense')::numeric, 0),
+      e.t->>'note',
+      e.t->>'external_id',
+      coalesce((e.t->>'occurrence')::integer, 1)
+    )
+  FROM jsonb_array_elements(_transactions) WITH ORDINALITY AS e(t, ord);
+$$;
+
+-- Positions of the given transactions that the book already has
+CREATE OR REPLACE FUNCTION public.find_duplicate_transactions(_book_id UUID, _transactions JSONB)
+RETURNS SETOF INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT f.row_index
+  FROM import_fingerprints(_transactions) AS f
+  WHERE EXISTS (
+    SELECT 1 FROM transactions AS t
+    WHERE t.book_id = _book_id AND t.fingerprint = f.fingerprint
+  )
+  ORDER BY f.row_index;
+$$;
+
+-- Inserts the given transactions, silently skipping any the book already
+-- has (including ones inserted concurrently), and returns the positions and
+-- ids of the rows that were actually inserted
+CREATE OR REPLACE FUNCTION public.import_transactions(_book_id UUID, _batch_id UUID, _transactions JSONB)
+RETURNS TABLE (row_index INTEGER, transaction_id UUID)
+LANGUAGE sql
+SET search_path = public
+AS $$
+  WITH input AS (
+    SELECT DISTINCT ON (f.fingerprint) f.row_index, f.fingerprint, e.t
+    FROM import_fingerprints(_transactions) AS f
+    JOIN jsonb_array_elements(_transactions) WITH ORDINALITY AS e(t, ord) ON e.ord - 1 = f.row_index
+    WHERE EXISTS (SELECT 1 FROM books WHERE id = _book_id AND user_id = auth.uid())
+    ORDER BY f.fingerprint, f.row_index
+  ),
+  inserted AS (
+    INSERT INTO transactions (
+      book_id, user_id, import_batch_id, date, category, subcategory,
+      income, expense, note, paid_from, labels, external_id, fingerprint
+    )
+    SELECT
+      _book_id,
+      auth.uid(),
+      _batch_id,
+      (t->>'date')::date,
+      coalesce(t->>'category', 'Uncategorized'),
+      t->>'subcategory',
+      coalesce((t->>'income')::numeric, 0),
+      coalesce((t->>'expense')::numeric, 0),
+      t->>'note',
+      t->>'paid_from',
+      CASE WHEN jsonb_typeof(t->'labels') = 'array'
+        THEN ARRAY(SELECT jsonb_array_elements_text(t->'labels'))
+      END,
+      t->>'external_id',
+      fingerprint
+    FROM input
+    ORDER BY row_index
+    ON CONFLICT DO NOTHING
+    RETURNING id, fingerprint
+  )
+  SELECT input.row_index, inserted.id
+  FROM inserted
+  JOIN input ON input.fingerprint = inserted.fingerprint
+  ORDER BY input.row_index;
+$$;
@@ -0,0 +1,27 @@
+-- Pairs the duplicate finder flagged and the user chose to keep both of,
+-- so they are not suggested again
+CREATE TABLE public.duplicate_dismissals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL,
+  book_id UUID NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+  transaction_a UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  transaction_b UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (transaction_a, transaction_b)
+);
+
+ALTER TABLE public.duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own duplicate dismissals"
+  ON public.duplicate_dismissals FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own duplicate dismissals"
+  ON public.duplicate_dismissals FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own duplicate dismissals"
+  ON public.duplicate_dismissals FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_duplicate_dismissals_book_id ON public.duplicate_dismissals(book_id);
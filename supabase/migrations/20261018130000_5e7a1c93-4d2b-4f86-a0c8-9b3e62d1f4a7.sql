@@ -0,0 +1,47 @@
+-- Restoring a backup goes through import_transactions too, so it keeps each
+-- row's original creation time when one is given; imports leave it out and
+-- get now() as before
+CREATE OR REPLACE FUNCTION public.import_transactions(_book_id UUID, _batch_id UUID, _transactions JSONB)
+RETURNS TABLE (row_index INTEGER, transaction_id UUID)
+LANGUAGE sql
+SET search_path = public
+AS $$
+  WITH input AS (
+    SELECT DISTINCT ON (f.fingerprint) f.row_index, f.fingerprint, e.t
+    FROM import_fingerprints(_transactions) AS f
+    JOIN jsonb_array_elements(_transactions) WITH ORDINALITY AS e(t, ord) ON e.ord - 1 = f.row_index
+    WHERE EXISTS (SELECT 1 FROM books WHERE id = _book_id AND user_id = auth.uid())
+    ORDER BY f.fingerprint, f.row_index
+  ),
+  inserted AS (
+    INSERT INTO transactions (
+      book_id, user_id, import_batch_id, date, category, subcategory,
+      income, expense, note, paid_from, labels, external_id, fingerprint, created_at
+    )
+    SELECT
+      _book_id,
+      auth.uid(),
+      _batch_id,
+      (t->>'date')::date,
+      coalesce(t->>'category', 'Uncategorized'),
+      t->>'subcategory',
+      coalesce((t->>'income')::numeric, 0),
+      coalesce((t->>'expense')::numeric, 0),
+      t->>'note',
+      t->>'paid_from',
+      CASE WHEN jsonb_typeof(t->'labels') = 'array'
+        THEN ARRAY(SELECT jsonb_array_elements_text(t->'labels'))
+      END,
+      t->>'external_id',
+      fingerprint,
+      coalesce((t->>'created_at')::timestamptz, now())
+    FROM input
+    ORDER BY row_index
+    ON CONFLICT DO NOTHING
+    RETURNING id, fingerprint
+  )
+  SELECT input.row_index, inserted.id
+  FROM inserted
+  JOIN input ON input.fingerprint = inserted.fingerprint
+  ORDER BY input.row_index;
+$$;
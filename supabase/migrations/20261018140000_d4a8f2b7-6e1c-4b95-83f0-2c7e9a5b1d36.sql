@@ -0,0 +1,93 @@
+-- Transactions paid in another currency keep the original amount and
+-- currency; income and expense stay in the book's currency
+ALTER TABLE public.transactions
+  ADD COLUMN original_currency TEXT,
+  ADD COLUMN original_amount DECIMAL(12, 2);
+
+-- Exchange rates maintained by the user: on `date`, one unit of
+-- base_currency was worth `rate` units of quote_currency
+CREATE TABLE public.exchange_rates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL,
+  base_currency TEXT NOT NULL,
+  quote_currency TEXT NOT NULL,
+  date DATE NOT NULL,
+  rate DECIMAL(18, 8) NOT NULL CHECK (rate > 0),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (user_id, base_currency, quote_currency, date)
+);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own exchange rates"
+  ON public.exchange_rates FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own exchange rates"
+  ON public.exchange_rates FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own exchange rates"
+  ON public.exchange_rates FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own exchange rates"
+  ON public.exchange_rates FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_exchange_rates_updated_at
+  BEFORE UPDATE ON public.exchange_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_exchange_rates_user_id ON public.exchange_rates(user_id);
+
+-- Imports and restores carry the original amount and currency as well
+CREATE OR REPLACE FUNCTION public.import_transactions(_book_id UUID, _batch_id UUID, _transactions JSONB)
+RETURNS TABLE (row_index INTEGER, transaction_id UUID)
+LANGUAGE sql
+SET search_path = public
+AS $$
+  WITH input AS (
+    SELECT DISTINCT ON (f.fingerprint) f.row_index, f.fingerprint, e.t
+    FROM import_fingerprints(_transactions) AS f
+    JOIN jsonb_array_elements(_transactions) WITH ORDINALITY AS e(t, ord) ON e.ord - 1 = f.row_index
+    WHERE EXISTS (SELECT 1 FROM books WHERE id = _book_id AND user_id = auth.uid())
+    ORDER BY f.fingerprint, f.row_index
+  ),
+  inserted AS (
+    INSERT INTO transactions (
+      book_id, user_id, import_batch_id, date, category, subcategory,
+      income, expense, note, paid_from, labels, external_id, fingerprint, created_at,
+      original_currency, original_amount
+    )
+    SELECT
+      _book_id,
+      auth.uid(),
+      _batch_id,
+      (t->>'date')::date,
+      coalesce(t->>'category', 'Uncategorized'),
+      t->>'subcategory',
+      coalesce((t->>'income')::numeric, 0),
+      coalesce((t->>'expense')::numeric, 0),
+      t->>'note',
+      t->>'paid_from',
+      CASE WHEN jsonb_typeof(t->'labels') = 'array'
+        THEN ARRAY(SELECT jsonb_array_elements_text(t->'labels'))
+      END,
+      t->>'external_id',
+      fingerprint,
+      coalesce((t->>'created_at')::timestamptz, now()),
+      t->>'original_currency',
+      (t->>'original_amount')::numeric
+    FROM input
+    ORDER BY row_index
+    ON CONFLICT DO NOTHING
+    RETURNING id, fingerprint
+  )
+  SELECT input.row_index, inserted.id
+  FROM inserted
+  JOIN input ON input.fingerprint = inserted.fingerprint
+  ORDER BY input.row_index;
+$$;
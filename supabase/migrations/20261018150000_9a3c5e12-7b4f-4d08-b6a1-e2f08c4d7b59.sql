@@ -0,0 +1,37 @@
+-- Merges two duplicate transactions of a book in one transaction: `_keep_id`
+-- takes the merged fields and `_other_id` is deleted, so a failure part way
+-- never loses either of them. The other transaction's bank id is cleared
+-- first, as the kept one may take it over and bank ids are unique per book.
+CREATE OR REPLACE FUNCTION public.merge_transactions(_keep_id UUID, _other_id UUID, _fields JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF _keep_id = _other_id OR (
+    SELECT count(*) FROM transactions AS t
+    JOIN transactions AS keep ON keep.id = _keep_id AND keep.book_id = t.book_id
+    WHERE t.id IN (_keep_id, _other_id)
+  ) <> 2 THEN
+    RAISE EXCEPTION 'Only two transactions of the same book can be merged';
+  END IF;
+
+  UPDATE transactions SET external_id = NULL WHERE id = _other_id AND external_id IS NOT NULL;
+
+  UPDATE transactions
+  SET
+    category = coalesce(_fields->>'category', 'Uncategorized'),
+    subcategory = _fields->>'subcategory',
+    note = _fields->>'note',
+    paid_from = _fields->>'paid_from',
+    labels = CASE WHEN jsonb_typeof(_fields->'labels') = 'array'
+      THEN ARRAY(SELECT jsonb_array_elements_text(_fields->'labels'))
+    END,
+    external_id = _fields->>'external_id',
+    original_currency = _fields->>'original_currency',
+    original_amount = (_fields->>'original_amount')::numeric
+  WHERE id = _keep_id;
+
+  DELETE FROM transactions WHERE id = _other_id;
+END;
+$$;
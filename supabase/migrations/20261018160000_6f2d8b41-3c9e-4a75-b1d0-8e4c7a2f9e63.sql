@@ -0,0 +1,4 @@
+-- Books recreated by restoring a backup remember the id of the backed-up
+-- book, so restoring the same backup again adds to that copy instead of
+-- creating another one
+ALTER TABLE public.books ADD COLUMN restored_from UUID;
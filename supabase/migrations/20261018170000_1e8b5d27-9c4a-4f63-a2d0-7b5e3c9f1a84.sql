@@ -0,0 +1,84 @@
+-- Fingerprint text is normalized the way the importer's normalizeText does:
+-- runs of whitespace, including the Unicode spaces JavaScript's \s matches,
+-- become one space and the ends are trimmed, for every text field. Before
+-- this only the note collapsed whitespace, so a category with a tab or a
+-- double space was fingerprinted differently in the browser and the database.
+CREATE OR REPLACE FUNCTION public.normalize_fingerprint_text(_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT lower(btrim(regexp_replace(
+    coalesce(_value, ''),
+    '[\t\n\v\f\r \u00a0\u1680\u2000-\u200a\u2028\u2029\u202f\u205f\u3000\ufeff]+',
+    ' ',
+    'g'
+  )));
+$$;
+
+CREATE OR REPLACE FUNCTION public.transaction_fingerprint(
+  _date DATE,
+  _category TEXT,
+  _subcategory TEXT,
+  _income NUMERIC,
+  _expense NUMERIC,
+  _note TEXT,
+  _external_id TEXT,
+  _occurrence INTEGER DEFAULT 1
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _external_id IS NOT NULL THEN 'ext:' || _external_id
+    ELSE md5(concat_ws('|',
+      _date::text,
+      normalize_fingerprint_text(_category),
+      normalize_fingerprint_text(_subcategory),
+      round(coalesce(_income, 0), 2)::text,
+      round(coalesce(_expense, 0), 2)::text,
+      normalize_fingerprint_text(_note)
+    )) || '#' || _occurrence
+  END;
+$$;
+
+-- Stored fingerprints are renumbered with the new normalization. Rows whose
+-- fingerprint changes are cleared first so the unique index never sees two
+-- rows holding the same value part way through the update.
+ALTER TABLE public.transactions DISABLE TRIGGER update_transactions_updated_at;
+ALTER TABLE public.transactions DISABLE TRIGGER set_transactions_fingerprint;
+
+CREATE TEMPORARY TABLE renumbered_fingerprints ON COMMIT DROP AS
+SELECT id, fingerprint
+FROM (
+  SELECT
+    t.id,
+    t.fingerprint AS previous,
+    public.transaction_fingerprint(
+      t.date, t.category, t.subcategory, t.income, t.expense, t.note, t.external_id,
+      (row_number() OVER (
+        PARTITION BY t.book_id, public.transaction_fingerprint(
+          t.date, t.category, t.subcategory, t.income, t.expense, t.note, t.external_id
+        )
+        ORDER BY t.created_at, t.id
+      ))::integer
+    ) AS fingerprint
+  FROM public.transactions AS t
+) AS numbered
+WHERE fingerprint IS DISTINCT FROM previous;
+
+UPDATE public.transactions AS t
+SET fingerprint = NULL
+FROM renumbered_fingerprints AS r
+WHERE t.id = r.id;
+
+UPDATE public.transactions AS t
+SET fingerprint = r.fingerprint
+FROM renumbered_fingerprints AS r
+WHERE t.id = r.id;
+
+ALTER TABLE public.transactions ENABLE TRIGGER set_transactions_fingerprint;
+ALTER TABLE public.transactions ENABLE TRIGGER update_transactions_updated_at;
@@ -0,0 +1,156 @@
+-- Fingerprints a book had before transactions were merged: the deleted
+-- transaction's, and the kept one's when taking over a bank id changed it.
+-- Importing the same files again would otherwise bring the merged duplicate
+-- back. They belong to the kept transaction and go when it is deleted.
+CREATE TABLE public.merged_fingerprints (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL,
+  book_id UUID NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  fingerprint TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (book_id, fingerprint)
+);
+
+ALTER TABLE public.merged_fingerprints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own merged fingerprints"
+  ON public.merged_fingerprints FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own merged fingerprints"
+  ON public.merged_fingerprints FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own merged fingerprints"
+  ON public.merged_fingerprints FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own merged fingerprints"
+  ON public.merged_fingerprints FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_merged_fingerprints_transaction_id ON public.merged_fingerprints(transaction_id);
+
+CREATE OR REPLACE FUNCTION public.merge_transactions(_keep_id UUID, _other_id UUID, _fields JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  kept transactions%ROWTYPE;
+  absorbed transactions%ROWTYPE;
+BEGIN
+  IF _keep_id = _other_id OR (
+    SELECT count(*) FROM transactions AS t
+    JOIN transactions AS keep ON keep.id = _keep_id AND keep.book_id = t.book_id
+    WHERE t.id IN (_keep_id, _other_id)
+  ) <> 2 THEN
+    RAISE EXCEPTION 'Only two transactions of the same book can be merged';
+  END IF;
+
+  -- Read before clearing the bank id, which changes the fingerprint
+  SELECT * INTO kept FROM transactions WHERE id = _keep_id;
+  SELECT * INTO absorbed FROM transactions WHERE id = _other_id;
+
+  UPDATE transactions SET external_id = NULL WHERE id = _other_id AND external_id IS NOT NULL;
+
+  UPDATE transactions
+  SET
+    category = coalesce(_fields->>'category', 'Uncategorized'),
+    subcategory = _fields->>'subcategory',
+    note = _fields->>'note',
+    paid_from = _fields->>'paid_from',
+    labels = CASE WHEN jsonb_typeof(_fields->'labels') = 'array'
+      THEN ARRAY(SELECT jsonb_array_elements_text(_fields->'labels'))
+    END,
+    external_id = _fields->>'external_id',
+    original_currency = _fields->>'original_currency',
+    original_amount = (_fields->>'original_amount')::numeric
+  WHERE id = _keep_id;
+
+  UPDATE merged_fingerprints SET transaction_id = _keep_id WHERE transaction_id = _other_id;
+
+  INSERT INTO merged_fingerprints (user_id, book_id, transaction_id, fingerprint)
+  SELECT kept.user_id, kept.book_id, _keep_id, previous.fingerprint
+  FROM unnest(ARRAY[absorbed.fingerprint, kept.fingerprint]) AS previous(fingerprint)
+  WHERE previous.fingerprint IS NOT NULL
+    AND previous.fingerprint IS DISTINCT FROM (SELECT fingerprint FROM transactions WHERE id = _keep_id)
+  ON CONFLICT (book_id, fingerprint) DO NOTHING;
+
+  DELETE FROM transactions WHERE id = _other_id;
+END;
+$$;
+
+-- Positions of the given transactions that the book already has, or had
+-- before they were merged into another
+CREATE OR REPLACE FUNCTION public.find_duplicate_transactions(_book_id UUID, _transactions JSONB)
+RETURNS SETOF INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT f.row_index
+  FROM import_fingerprints(_transactions) AS f
+  WHERE EXISTS (
+    SELECT 1 FROM transactions AS t
+    WHERE t.book_id = _book_id AND t.fingerprint = f.fingerprint
+  ) OR EXISTS (
+    SELECT 1 FROM merged_fingerprints AS m
+    WHERE m.book_id = _book_id AND m.fingerprint = f.fingerprint
+  )
+  ORDER BY f.row_index;
+$$;
+
+-- Skips merged duplicates as well as transactions the book has
+CREATE OR REPLACE FUNCTION public.import_transactions(_book_id UUID, _batch_id UUID, _transactions JSONB)
+RETURNS TABLE (row_index INTEGER, transaction_id UUID)
+LANGUAGE sql
+SET search_path = public
+AS $$
+  WITH input AS (
+    SELECT DISTINCT ON (f.fingerprint) f.row_index, f.fingerprint, e.t
+    FROM import_fingerprints(_transactions) AS f
+    JOIN jsonb_array_elements(_transactions) WITH ORDINALITY AS e(t, ord) ON e.ord - 1 = f.row_index
+    WHERE EXISTS (SELECT 1 FROM books WHERE id = _book_id AND user_id = auth.uid())
+      AND NOT EXISTS (
+        SELECT 1 FROM merged_fingerprints AS m
+        WHERE m.book_id = _book_id AND m.fingerprint = f.fingerprint
+      )
+    ORDER BY f.fingerprint, f.row_index
+  ),
+  inserted AS (
+    INSERT INTO transactions (
+      book_id, user_id, import_batch_id, date, category, subcategory,
+      income, expense, note, paid_from, labels, external_id, fingerprint, created_at,
+      original_currency, original_amount
+    )
+    SELECT
+      _book_id,
+      auth.uid(),
+      _batch_id,
+      (t->>'date')::date,
+      coalesce(t->>'category', 'Uncategorized'),
+      t->>'subcategory',
+      coalesce((t->>'income')::numeric, 0),
+      coalesce((t->>'expense')::numeric, 0),
+      t->>'note',
+      t->>'paid_from',
+      CASE WHEN jsonb_typeof(t->'labels') = 'array'
+        THEN ARRAY(SELECT jsonb_array_elements_text(t->'labels'))
+      END,
+      t->>'external_id',
+      fingerprint,
+      coalesce((t->>'created_at')::timestamptz, now()),
+      t->>'original_currency',
+      (t->>'original_amount')::numeric
+    FROM input
+    ORDER BY row_index
+    ON CONFLICT DO NOTHING
+    RETURNING id, fingerprint
+  )
+  SELECT input.row_index, inserted.id
+  FROM inserted
+  JOIN input ON input.fingerprint = inserted.fingerprint
+  ORDER BY input.row_index;
+$$;